@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pluginCache, PluginInfo } from './PluginCache';
+import { parseImports } from './ImportAnalyzer';
+import { BoundaryViolation, PluginEnvironment } from './types';
+
+const ENVIRONMENTS: PluginEnvironment[] = ['public', 'server', 'common'];
+
+// What each environment may import. common runs on both sides, so it can't depend on either
+const ALLOWED_IMPORTS: Record<PluginEnvironment, PluginEnvironment[]> = {
+  public: ['public', 'common'],
+  server: ['server', 'common'],
+  common: ['common'],
+};
+
+// 'server/routes/index.ts' -> 'server'
+function getEnvironment(relativePath: string): PluginEnvironment | undefined {
+  const [first] = relativePath.split(/[\\/]/);
+  return ENVIRONMENTS.find((environment) => environment === first);
+}
+
+/**
+ * The plugin and environment an import points at: '@kbn/foo-plugin/server/lib' is foo's server code,
+ * '../../server/lib' from the plugin's public code is its own server code. Bare package imports
+ * and paths outside an environment directory return undefined.
+ */
+function resolveImportTarget(
+  plugin: PluginInfo,
+  filePath: string,
+  moduleSpecifier: string
+): { pluginId: string; environment: PluginEnvironment } | undefined {
+  if (moduleSpecifier.startsWith('.')) {
+    const relativePath = path.relative(plugin.directory, path.resolve(path.dirname(filePath), moduleSpecifier));
+    const environment = relativePath.startsWith('..') ? undefined : getEnvironment(relativePath);
+    return environment ? { pluginId: plugin.runtimeId, environment } : undefined;
+  }
+
+  const match = moduleSpecifier.match(/^(@[^/]+\/[^/]+)\/(.+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const target = pluginCache.getByPackageId(match[1].toLowerCase());
+  const environment = getEnvironment(match[2]);
+  return target && environment ? { pluginId: target.runtimeId, environment } : undefined;
+}
+
+/**
+ * Imports in a plugin's public, server and common code that reach into an environment they
+ * can't run in - through another plugin's package subpath or a relative path into its own code.
+ */
+export async function findBoundaryViolations(plugin: PluginInfo, files: string[]): Promise<BoundaryViolation[]> {
+  const violations: BoundaryViolation[] = [];
+
+  for (const filePath of files) {
+    const relativePath = path.relative(plugin.directory, filePath);
+    const from = getEnvironment(relativePath);
+    if (!from) {
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const parsed of parseImports(filePath, content)) {
+      // jest.mock only names a module, it doesn't import it
+      if (parsed.kind === 'jest-mock') {
+        continue;
+      }
+      const target = resolveImportTarget(plugin, filePath, parsed.moduleSpecifier);
+      if (!target || ALLOWED_IMPORTS[from].includes(target.environment)) {
+        continue;
+      }
+      violations.push({
+        pluginId: plugin.runtimeId,
+        dependencyId: target.pluginId,
+        filePath,
+        relativePath,
+        line: parsed.line,
+        from,
+        to: target.environment,
+        moduleSpecifier: parsed.moduleSpecifier,
+        isTypeOnly: parsed.names.every((name) => name.isTypeOnly),
+      });
+    }
+  }
+
+  return violations;
+}
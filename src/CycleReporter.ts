@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { pluginCache } from './PluginCache';
+import { DEPENDENCY_KIND_FIELDS } from './pluginDependencies';
+import { findDependencyCycles } from './pluginCycles';
+import { findManifestRange } from './manifestRanges';
+
+/**
+ * Reports plugin dependency cycles to the Problems panel, with one warning on each
+ * kibana.jsonc entry that closes a loop. Once run, the report follows manifest changes.
+ */
+export class CycleReporter implements vscode.Disposable {
+  private readonly _diagnostics = vscode.languages.createDiagnosticCollection('pathfinder-cycles');
+  private readonly _cacheSubscription: vscode.Disposable;
+  private _isReporting = false;
+
+  constructor() {
+    this._cacheSubscription = pluginCache.onDidChange(() => {
+      if (this._isReporting) {
+        this._update();
+      }
+    });
+  }
+
+  public async reportCycles() {
+    await pluginCache.initialize();
+    this._isReporting = true;
+    const cycleCount = this._update();
+
+    if (cycleCount === 0) {
+      vscode.window.showInformationMessage('No plugin dependency cycles found.');
+      return;
+    }
+    const action = await vscode.window.showWarningMessage(
+      `Found ${cycleCount} plugin dependency ${cycleCount === 1 ? 'cycle' : 'cycles'}.`,
+      'Show Problems'
+    );
+    if (action === 'Show Problems') {
+      vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+  }
+
+  /**
+   * Recompute the diagnostics. Returns the number of cycles.
+   */
+  private _update(): number {
+    const cycles = findDependencyCycles(pluginCache.getAllPlugins());
+    const diagnosticsByManifest = new Map<string, vscode.Diagnostic[]>();
+
+    for (const cycle of cycles) {
+      const loop = cycle.path.join(' → ');
+      for (const edge of cycle.edges) {
+        const plugin = pluginCache.getByRuntimeId(edge.source);
+        if (!plugin) {
+          continue;
+        }
+        const diagnostic = new vscode.Diagnostic(
+          findManifestRange(plugin.manifestPath, DEPENDENCY_KIND_FIELDS[edge.kind], edge.target),
+          `${edge.source} → ${edge.target} is part of a ${edge.kind} dependency cycle between ` +
+            `${cycle.pluginIds.length} plugins (${loop})`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Pathfinder';
+        const diagnostics = diagnosticsByManifest.get(plugin.manifestPath) || [];
+        diagnostics.push(diagnostic);
+        diagnosticsByManifest.set(plugin.manifestPath, diagnostics);
+      }
+    }
+
+    this._diagnostics.clear();
+    for (const [manifestPath, diagnostics] of diagnosticsByManifest) {
+      this._diagnostics.set(vscode.Uri.file(manifestPath), diagnostics);
+    }
+    return cycles.length;
+  }
+
+  public dispose() {
+    this._cacheSubscription.dispose();
+    this._diagnostics.dispose();
+  }
+}
@@ -0,0 +1,254 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isRuntimePlugin, pluginCache, PluginInfo } from './PluginCache';
+import { DEPENDENCY_KIND_FIELDS } from './pluginDependencies';
+import { parseImports } from './ImportAnalyzer';
+import { findManifestRange } from './manifestRanges';
+import { DependencyAuditFinding, DependencyKind } from './types';
+
+// The lists that allow importing a plugin's code - runtimePluginDependencies only grants runtime access
+const IMPORTABLE_KINDS: DependencyKind[] = ['required', 'optional', 'bundle'];
+
+// Tests, mocks and stories don't ship, so what they import doesn't need declaring
+const NON_RUNTIME_FILE =
+  /(\.(test|spec|stories|mock)\.[jt]sx?$)|(\/(__mocks__|__jest__|__fixtures__|\.storybook|mocks|test|tests|cypress)\/)|(\/mocks?\.[jt]sx?$)/;
+
+// Runtime imports shown as related locations on a diagnostic
+const MAX_RELATED_SITES = 10;
+
+// The plugins one plugin's code imports
+interface PluginImports {
+  imported: Set<string>; // Every imported plugin, including type-only imports and tests
+  runtimeSites: Map<string, { filePath: string; line: number }[]>; // Runtime imports per plugin
+}
+
+// '@kbn/data-plugin/public' -> the data plugin. Packages like '@kbn/i18n' aren't plugins
+function getImportedPlugin(moduleSpecifier: string): PluginInfo | undefined {
+  const match = moduleSpecifier.match(/^(@[^/]+\/[^/]+)/);
+  const info = match ? pluginCache.getByPackageId(match[1].toLowerCase()) : undefined;
+  return info && isRuntimePlugin(info) ? info : undefined;
+}
+
+/**
+ * Compare each plugin's importable dependencies with what its code imports.
+ * Plugins that weren't part of the scan are skipped.
+ */
+function findDependencyMismatches(
+  plugins: PluginInfo[],
+  importsByPlugin: Map<string, PluginImports>
+): DependencyAuditFinding[] {
+  const findings: DependencyAuditFinding[] = [];
+
+  for (const plugin of plugins) {
+    const imports = importsByPlugin.get(plugin.runtimeId);
+    if (!imports) {
+      continue;
+    }
+
+    const declared = new Set(IMPORTABLE_KINDS.flatMap((kind) => plugin[DEPENDENCY_KIND_FIELDS[kind]]));
+    for (const [dependencyId, importSites] of imports.runtimeSites) {
+      if (!declared.has(dependencyId)) {
+        findings.push({ pluginId: plugin.runtimeId, dependencyId, problem: 'undeclared', importSites });
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const kind of IMPORTABLE_KINDS) {
+      for (const dependencyId of plugin[DEPENDENCY_KIND_FIELDS[kind]]) {
+        // Dependencies outside the workspace can't be matched to imports
+        if (seen.has(dependencyId) || !pluginCache.getByRuntimeId(dependencyId)) {
+          continue;
+        }
+        seen.add(dependencyId);
+        if (!imports.imported.has(dependencyId)) {
+          findings.push({ pluginId: plugin.runtimeId, dependencyId, problem: 'unused', declaredAs: kind, importSites: [] });
+        }
+      }
+    }
+  }
+
+  return findings.sort(
+    (a, b) => a.pluginId.localeCompare(b.pluginId) || a.dependencyId.localeCompare(b.dependencyId)
+  );
+}
+
+/**
+ * Workspace-wide check of kibana.jsonc dependencies against imports: plugins that import runtime code
+ * from plugins they don't declare, and declared dependencies that are never imported. Findings go to
+ * the Problems panel and to Plugin mode. Manifest changes are re-checked against the last scan;
+ * changed imports need another run.
+ */
+export class DependencyAuditor implements vscode.Disposable {
+  private readonly _diagnostics = vscode.languages.createDiagnosticCollection('pathfinder-dependencies');
+  private readonly _cacheSubscription: vscode.Disposable;
+  private readonly _onDidChangeFindings = new vscode.EventEmitter<DependencyAuditFinding[]>();
+  public readonly onDidChangeFindings = this._onDidChangeFindings.event;
+  private _importsByPlugin?: Map<string, PluginImports>;
+
+  constructor() {
+    this._cacheSubscription = pluginCache.onDidChange(() => {
+      if (this._importsByPlugin) {
+        this._update();
+      }
+    });
+  }
+
+  public async auditDependencies() {
+    await pluginCache.initialize();
+    const importsByPlugin = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Auditing plugin dependencies', cancellable: true },
+      (progress, token) => this._scanImports(progress, token)
+    );
+    if (!importsByPlugin) {
+      return;
+    }
+
+    this._importsByPlugin = importsByPlugin;
+    const findings = this._update();
+    const undeclared = findings.filter((finding) => finding.problem === 'undeclared').length;
+    const unused = findings.length - undeclared;
+
+    if (findings.length === 0) {
+      vscode.window.showInformationMessage('Every plugin imports exactly the plugins its kibana.jsonc declares.');
+      return;
+    }
+    const action = await vscode.window.showWarningMessage(
+      `Found ${undeclared} undeclared and ${unused} never imported plugin ${findings.length === 1 ? 'dependency' : 'dependencies'}.`,
+      'Show Problems'
+    );
+    if (action === 'Show Problems') {
+      vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+  }
+
+  /**
+   * Parse every source file that mentions a `@kbn/` package and record which plugins it imports,
+   * attributed to the plugin the file belongs to. Returns undefined if cancelled.
+   */
+  private async _scanImports(
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<Map<string, PluginImports> | undefined> {
+    // Packages own their files too, but can't declare plugin dependencies, so only plugins are scanned
+    const manifests = pluginCache.getAllPlugins();
+    const pluginsByDirectory = new Map(manifests.map((info) => [info.directory, info]));
+    const importsByPlugin = new Map(
+      manifests.filter(isRuntimePlugin).map((plugin): [string, PluginImports] => [plugin.runtimeId, { imported: new Set(), runtimeSites: new Map() }])
+    );
+
+    const files = await vscode.workspace.findFiles('**/*.{ts,tsx,js,jsx}', '**/{node_modules,target,build}/**', undefined, token);
+    const ownerByDirectory = new Map<string, PluginInfo | undefined>();
+    const findOwner = (filePath: string): PluginInfo | undefined => {
+      const dir = path.dirname(filePath);
+      if (!ownerByDirectory.has(dir)) {
+        const parent = path.dirname(dir);
+        ownerByDirectory.set(dir, pluginsByDirectory.get(dir) ?? (parent === dir ? undefined : findOwner(dir)));
+      }
+      return ownerByDirectory.get(dir);
+    };
+
+    const REPORT_EVERY = 500;
+    for (const [index, uri] of files.entries()) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      if (index % REPORT_EVERY === 0) {
+        progress.report({ message: `${index} of ${files.length} files`, increment: (REPORT_EVERY / files.length) * 100 });
+      }
+
+      const plugin = findOwner(uri.fsPath);
+      if (!plugin || !isRuntimePlugin(plugin)) {
+        continue;
+      }
+      let content: string;
+      try {
+        content = await fs.promises.readFile(uri.fsPath, 'utf-8');
+      } catch {
+        continue;
+      }
+      if (!content.includes('@kbn/')) {
+        continue;
+      }
+
+      const imports = importsByPlugin.get(plugin.runtimeId)!;
+      const isRuntimeFile = !NON_RUNTIME_FILE.test(uri.fsPath.split(path.sep).join('/'));
+      for (const parsed of parseImports(uri.fsPath, content)) {
+        const dependency = getImportedPlugin(parsed.moduleSpecifier);
+        if (!dependency || dependency.runtimeId === plugin.runtimeId) {
+          continue;
+        }
+        imports.imported.add(dependency.runtimeId);
+
+        const isTypeOnly = parsed.names.every((name) => name.isTypeOnly);
+        if (isRuntimeFile && !isTypeOnly && parsed.kind !== 'jest-mock') {
+          const sites = imports.runtimeSites.get(dependency.runtimeId) || [];
+          sites.push({ filePath: uri.fsPath, line: parsed.line });
+          imports.runtimeSites.set(dependency.runtimeId, sites);
+        }
+      }
+    }
+
+    return importsByPlugin;
+  }
+
+  /**
+   * Recompute the findings and diagnostics from the last scan.
+   */
+  private _update(): DependencyAuditFinding[] {
+    const findings = findDependencyMismatches(pluginCache.getAllPlugins(), this._importsByPlugin || new Map());
+    const diagnosticsByManifest = new Map<string, vscode.Diagnostic[]>();
+
+    for (const finding of findings) {
+      const plugin = pluginCache.getByRuntimeId(finding.pluginId);
+      if (!plugin) {
+        continue;
+      }
+      const packageId = pluginCache.getDisplayName(finding.dependencyId);
+      let diagnostic: vscode.Diagnostic;
+
+      if (finding.problem === 'undeclared') {
+        const count = finding.importSites.length;
+        diagnostic = new vscode.Diagnostic(
+          findManifestRange(plugin.manifestPath, DEPENDENCY_KIND_FIELDS.required),
+          `${plugin.runtimeId} imports runtime code from ${finding.dependencyId} (${packageId}) in ${count} ` +
+            `${count === 1 ? 'place' : 'places'} but doesn't declare it in requiredPlugins, optionalPlugins or requiredBundles`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.relatedInformation = finding.importSites.slice(0, MAX_RELATED_SITES).map(
+          (site) =>
+            new vscode.DiagnosticRelatedInformation(
+              new vscode.Location(vscode.Uri.file(site.filePath), new vscode.Position(site.line - 1, 0)),
+              `Imports ${packageId}`
+            )
+        );
+      } else {
+        const field = DEPENDENCY_KIND_FIELDS[finding.declaredAs ?? 'required'];
+        diagnostic = new vscode.Diagnostic(
+          findManifestRange(plugin.manifestPath, field, finding.dependencyId),
+          `${finding.dependencyId} is declared in ${field} but ${plugin.runtimeId} never imports ${packageId}`,
+          vscode.DiagnosticSeverity.Information
+        );
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      }
+
+      diagnostic.source = 'Pathfinder';
+      const diagnostics = diagnosticsByManifest.get(plugin.manifestPath) || [];
+      diagnostics.push(diagnostic);
+      diagnosticsByManifest.set(plugin.manifestPath, diagnostics);
+    }
+
+    this._diagnostics.clear();
+    for (const [manifestPath, diagnostics] of diagnosticsByManifest) {
+      this._diagnostics.set(vscode.Uri.file(manifestPath), diagnostics);
+    }
+    this._onDidChangeFindings.fire(findings);
+    return findings;
+  }
+
+  public dispose() {
+    this._cacheSubscription.dispose();
+    this._onDidChangeFindings.dispose();
+    this._diagnostics.dispose();
+  }
+}
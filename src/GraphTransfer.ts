@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StateManager } from './StateManager';
+import { PathfinderViewProvider } from './PathfinderViewProvider';
+import { NavigationTracker, generateNodeId } from './NavigationTracker';
+import { FileNode, GraphState, NavigationEdge, GroupNode, SymbolInfo, JourneyStep } from './types';
+
+export const GRAPH_EXPORT_FORMAT = 'kibana-pathfinder-graph';
+export const GRAPH_EXPORT_VERSION = 1;
+
+/**
+ * Shareable graph document. All file paths are relative to the workspace root
+ * (with forward slashes) so the document can be loaded on another checkout.
+ */
+export interface GraphExportDocument {
+  format: typeof GRAPH_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  nodes: FileNode[];
+  edges: NavigationEdge[];
+  groups: GroupNode[];
+  journey?: JourneyStep[]; // Missing in exports made before the journey log existed
+}
+
+function toPortablePath(filePath: string, workspaceRoot: string): string {
+  return path.relative(workspaceRoot, filePath).split(path.sep).join('/');
+}
+
+function fromPortablePath(portablePath: string, workspaceRoot: string): string {
+  return path.join(workspaceRoot, ...portablePath.split('/'));
+}
+
+function isNavigationEdge(edge: NavigationEdge): boolean {
+  return edge.edgeType !== 'dependency' && edge.edgeType !== 'call' && !edge.id.startsWith('dep-');
+}
+
+/**
+ * The ID an edge gets once its endpoints are remapped. Navigation and call edge IDs are
+ * derived from their endpoints; dependency edge IDs only use group IDs.
+ */
+function getLocalEdgeId(edge: NavigationEdge, source: string, target: string): string {
+  if (edge.edgeType === 'call') {
+    return `call-${source}-${target}`;
+  }
+  return isNavigationEdge(edge) ? `${source}-${target}` : edge.id;
+}
+
+/**
+ * Convert a GraphState into a versioned, machine-independent export document.
+ */
+export function serializeGraph(state: GraphState, workspaceRoot: string): GraphExportDocument {
+  const portableSymbol = (symbol: SymbolInfo): SymbolInfo => ({
+    ...symbol,
+    filePath: toPortablePath(symbol.filePath, workspaceRoot),
+  });
+
+  return {
+    format: GRAPH_EXPORT_FORMAT,
+    version: GRAPH_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes: state.nodes.map((node) => ({
+      ...node,
+      filePath: toPortablePath(node.filePath, workspaceRoot),
+      symbols: node.symbols?.map(portableSymbol),
+      sourceSymbols: node.sourceSymbols?.map(portableSymbol),
+    })),
+    edges: state.edges.map((edge) => ({ ...edge })),
+    groups: state.groups.map((group) => ({ ...group })),
+    journey: state.journey?.map((step) => ({
+      ...step,
+      sourcePath: toPortablePath(step.sourcePath, workspaceRoot),
+      targetPath: toPortablePath(step.targetPath, workspaceRoot),
+      symbol: step.symbol && portableSymbol(step.symbol),
+      containingSymbol: step.containingSymbol && portableSymbol(step.containingSymbol),
+    })),
+  };
+}
+
+/**
+ * Turn an export document back into a GraphState for this workspace.
+ * Node IDs are a hash of the absolute file path, so they are regenerated for the
+ * local checkout and every edge endpoint is remapped accordingly.
+ */
+export function deserializeGraph(document: unknown, workspaceRoot: string): GraphState {
+  const doc = document as Partial<GraphExportDocument> | null;
+  if (!doc || doc.format !== GRAPH_EXPORT_FORMAT) {
+    throw new Error('Not a Pathfinder graph export');
+  }
+  if (typeof doc.version !== 'number' || doc.version > GRAPH_EXPORT_VERSION) {
+    throw new Error(`Unsupported graph export version: ${doc.version}`);
+  }
+  if (!Array.isArray(doc.nodes) || !Array.isArray(doc.edges) || !Array.isArray(doc.groups)) {
+    throw new Error('Graph export is missing nodes, edges or groups');
+  }
+
+  const localSymbol = (symbol: SymbolInfo): SymbolInfo => ({
+    ...symbol,
+    filePath: fromPortablePath(symbol.filePath, workspaceRoot),
+  });
+
+  // Map the exporting machine's node IDs to the IDs this machine generates
+  const idMap = new Map<string, string>();
+  const nodes: FileNode[] = doc.nodes.map((node) => {
+    const filePath = fromPortablePath(node.filePath, workspaceRoot);
+    const id = generateNodeId(filePath);
+    idMap.set(node.id, id);
+    return {
+      ...node,
+      id,
+      filePath,
+      symbols: node.symbols?.map(localSymbol),
+      sourceSymbols: node.sourceSymbols?.map(localSymbol),
+    };
+  });
+
+  const edges: NavigationEdge[] = doc.edges.map((edge) => {
+    const source = idMap.get(edge.source) ?? edge.source;
+    const target = idMap.get(edge.target) ?? edge.target;
+    return { ...edge, id: getLocalEdgeId(edge, source, target), source, target };
+  });
+
+  // Steps may reference files that were removed from the graph, so derive their IDs from the paths
+  const journey: JourneyStep[] | undefined = Array.isArray(doc.journey)
+    ? doc.journey.map((step) => {
+        const sourcePath = fromPortablePath(step.sourcePath, workspaceRoot);
+        const targetPath = fromPortablePath(step.targetPath, workspaceRoot);
+        return {
+          ...step,
+          source: generateNodeId(sourcePath),
+          target: generateNodeId(targetPath),
+          sourcePath,
+          targetPath,
+          symbol: step.symbol && localSymbol(step.symbol),
+          containingSymbol: step.containingSymbol && localSymbol(step.containingSymbol),
+        };
+      })
+    : undefined;
+
+  return { nodes, edges, groups: doc.groups.map((group) => ({ ...group })), journey };
+}
+
+/**
+ * Implements the Export Graph / Import Graph commands.
+ */
+export class GraphTransfer {
+  constructor(
+    private readonly _stateManager: StateManager,
+    private readonly _viewProvider: PathfinderViewProvider,
+    private readonly _navigationTracker: NavigationTracker
+  ) {}
+
+  public async exportGraph() {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      vscode.window.showWarningMessage('Open a workspace folder to export the Pathfinder graph.');
+      return;
+    }
+
+    const state = this._stateManager.getState();
+    if (state.nodes.length === 0 && state.groups.length === 0) {
+      vscode.window.showInformationMessage('The Pathfinder graph is empty - nothing to export.');
+      return;
+    }
+
+    const sessionName = this._stateManager.getActiveSession().name;
+    const defaultFileName = `${sessionName.replace(/[^\w.-]+/g, '-').toLowerCase()}.pathfinder.json`;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(workspaceRoot, defaultFileName)),
+      filters: { 'Pathfinder Graph': ['json'] },
+      saveLabel: 'Export Graph',
+    });
+    if (!target) {
+      return;
+    }
+
+    try {
+      const document = serializeGraph(state, workspaceRoot);
+      await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(document, null, 2), 'utf-8'));
+      vscode.window.showInformationMessage(
+        `Exported ${document.nodes.length} files and ${document.groups.length} plugin groups to ${path.basename(target.fsPath)}`
+      );
+    } catch (error) {
+      console.error('[Kibana Pathfinder] Error exporting graph:', error);
+      vscode.window.showErrorMessage(`Could not export graph: ${(error as Error).message}`);
+    }
+  }
+
+  public async importGraph() {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      vscode.window.showWarningMessage('Open a workspace folder to import a Pathfinder graph.');
+      return;
+    }
+
+    const selection = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Pathfinder Graph': ['json'] },
+      openLabel: 'Import Graph',
+    });
+    if (!selection || selection.length === 0) {
+      return;
+    }
+
+    let imported: GraphState;
+    try {
+      const content = await vscode.workspace.fs.readFile(selection[0]);
+      imported = deserializeGraph(JSON.parse(Buffer.from(content).toString('utf-8')), workspaceRoot);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not import graph: ${(error as Error).message}`);
+      return;
+    }
+
+    // Only ask how to combine the graphs when there is something to combine with
+    let mode: 'merge' | 'replace' = 'replace';
+    const current = this._stateManager.getState();
+    if (current.nodes.length > 0 || current.groups.length > 0) {
+      const choice = await vscode.window.showQuickPick(
+        [
+          { label: 'Merge', description: 'Add the imported files to the current graph', mode: 'merge' as const },
+          { label: 'Replace', description: 'Discard the current graph', mode: 'replace' as const },
+        ],
+        { placeHolder: 'How should the imported graph be loaded?' }
+      );
+      if (!choice) {
+        return;
+      }
+      mode = choice.mode;
+    }
+
+    const existingNodeIds = new Set(current.nodes.map((n) => n.id));
+    this._stateManager.importState(imported, mode);
+
+    if (mode === 'merge') {
+      // Imported nodes keep their exported offsets, which may overlap nodes already in the group
+      const touchedGroups = new Set(
+        imported.nodes.filter((n) => n.groupId && !existingNodeIds.has(n.id)).map((n) => n.groupId!)
+      );
+      touchedGroups.forEach((groupId) => this._navigationTracker.reflowGroup(groupId));
+    }
+
+    this._viewProvider.reloadState();
+
+    const missingFiles = imported.nodes.filter((n) => !fs.existsSync(n.filePath)).length;
+    const summary = `Imported ${imported.nodes.length} files and ${imported.groups.length} plugin groups`;
+    if (missingFiles > 0) {
+      vscode.window.showWarningMessage(`${summary}. ${missingFiles} files do not exist in this checkout.`);
+    } else {
+      vscode.window.showInformationMessage(summary);
+    }
+  }
+}
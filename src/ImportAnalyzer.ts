@@ -0,0 +1,330 @@
+import * as ts from 'typescript';
+import { ImportedExport, ImportKind, ImportUsage } from './types';
+
+// One name brought in by an import or re-export statement
+interface ImportedName {
+  name: string; // export name, 'default', or '*' for the whole module
+  alias?: string;
+  isDefault: boolean;
+  isTypeOnly: boolean;
+}
+
+// A module reference found in a source file
+export interface ParsedImport {
+  moduleSpecifier: string;
+  kind: ImportKind;
+  line: number; // 1-based
+  names: ImportedName[];
+}
+
+const WHOLE_MODULE: ImportedName = { name: '*', isDefault: false, isTypeOnly: false };
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) {
+    return ts.ScriptKind.TSX;
+  }
+  if (filePath.endsWith('.jsx')) {
+    return ts.ScriptKind.JSX;
+  }
+  if (filePath.endsWith('.js') || filePath.endsWith('.mjs') || filePath.endsWith('.cjs')) {
+    return ts.ScriptKind.JS;
+  }
+  return ts.ScriptKind.TS;
+}
+
+// The literal module path of a call like require('x'), import('x') or jest.mock('x')
+function getStringArgument(call: ts.CallExpression): string | undefined {
+  const [first] = call.arguments;
+  return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+}
+
+// typeof import('x').Foo.Bar references Foo; a bare typeof import('x') references the whole module
+function getImportTypeName(node: ts.ImportTypeNode): string {
+  let qualifier: ts.EntityName | undefined = node.qualifier;
+  while (qualifier && ts.isQualifiedName(qualifier)) {
+    qualifier = qualifier.left;
+  }
+  return qualifier && ts.isIdentifier(qualifier) ? qualifier.text : '*';
+}
+
+function getImportClauseNames(clause: ts.ImportClause | undefined): ImportedName[] {
+  if (!clause) {
+    return [WHOLE_MODULE]; // import './side-effect'
+  }
+  const names: ImportedName[] = [];
+  if (clause.name) {
+    names.push({ name: 'default', alias: clause.name.text, isDefault: true, isTypeOnly: clause.isTypeOnly });
+  }
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push({ name: '*', alias: bindings.name.text, isDefault: false, isTypeOnly: clause.isTypeOnly });
+  } else if (bindings && ts.isNamedImports(bindings)) {
+    for (const element of bindings.elements) {
+      // import { foo as bar } has propertyName foo and name bar
+      const name = (element.propertyName ?? element.name).text;
+      names.push({
+        name,
+        alias: element.propertyName ? element.name.text : undefined,
+        isDefault: name === 'default',
+        isTypeOnly: clause.isTypeOnly || element.isTypeOnly,
+      });
+    }
+  }
+  return names;
+}
+
+function getExportDeclarationNames(declaration: ts.ExportDeclaration): ImportedName[] {
+  const clause = declaration.exportClause;
+  if (!clause) {
+    return [{ ...WHOLE_MODULE, isTypeOnly: declaration.isTypeOnly }]; // export * from 'x'
+  }
+  if (ts.isNamespaceExport(clause)) {
+    return [{ name: '*', alias: clause.name.text, isDefault: false, isTypeOnly: declaration.isTypeOnly }];
+  }
+  return clause.elements.map((element) => {
+    const name = (element.propertyName ?? element.name).text;
+    return {
+      name,
+      alias: element.propertyName ? element.name.text : undefined,
+      isDefault: name === 'default',
+      isTypeOnly: declaration.isTypeOnly || element.isTypeOnly,
+    };
+  });
+}
+
+/**
+ * Find every module reference in a file with the TypeScript parser: static imports (including
+ * multi-line ones), `export ... from` re-exports, `import x = require()`, dynamic `import()`,
+ * `require()` and `jest.mock()` paths. Only parses - no type checking or module resolution.
+ */
+export function parseImports(filePath: string, content: string): ParsedImport[] {
+  return parseSourceFileImports(createSourceFile(filePath, content));
+}
+
+export function createSourceFile(filePath: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+}
+
+function parseSourceFileImports(sourceFile: ts.SourceFile): ParsedImport[] {
+  const imports: ParsedImport[] = [];
+  const getLine = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteralLike(node.moduleSpecifier)) {
+      imports.push({
+        moduleSpecifier: node.moduleSpecifier.text,
+        kind: node.importClause ? 'import' : 'side-effect',
+        line: getLine(node),
+        names: getImportClauseNames(node.importClause),
+      });
+      return;
+    }
+
+    if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteralLike(node.moduleSpecifier)) {
+      imports.push({
+        moduleSpecifier: node.moduleSpecifier.text,
+        kind: 're-export',
+        line: getLine(node),
+        names: getExportDeclarationNames(node),
+      });
+      return;
+    }
+
+    // import foo = require('x')
+    if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteralLike(node.moduleReference.expression)
+    ) {
+      imports.push({
+        moduleSpecifier: node.moduleReference.expression.text,
+        kind: 'require',
+        line: getLine(node),
+        names: [{ name: '*', alias: node.name.text, isDefault: false, isTypeOnly: node.isTypeOnly }],
+      });
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const moduleSpecifier = getStringArgument(node);
+      if (moduleSpecifier !== undefined) {
+        const { expression } = node;
+        let kind: ImportKind | undefined;
+        if (expression.kind === ts.SyntaxKind.ImportKeyword) {
+          kind = 'dynamic';
+        } else if (ts.isIdentifier(expression) && expression.text === 'require') {
+          kind = 'require';
+        } else if (
+          ts.isPropertyAccessExpression(expression) &&
+          ts.isIdentifier(expression.expression) &&
+          expression.expression.text === 'jest' &&
+          (expression.name.text === 'mock' || expression.name.text === 'doMock')
+        ) {
+          kind = 'jest-mock';
+        }
+        if (kind) {
+          imports.push({ moduleSpecifier, kind, line: getLine(node), names: [WHOLE_MODULE] });
+        }
+      }
+    }
+
+    // Type positions can reference modules too: typeof import('x')
+    if (ts.isImportTypeNode(node)) {
+      const argument = node.argument;
+      if (ts.isLiteralTypeNode(argument) && ts.isStringLiteralLike(argument.literal)) {
+        imports.push({
+          moduleSpecifier: argument.literal.text,
+          kind: 'dynamic',
+          line: getLine(node),
+          names: [{ name: getImportTypeName(node), isDefault: false, isTypeOnly: true }],
+        });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return imports;
+}
+
+/**
+ * Whether an import path points at a package or one of its subpaths (e.g. '@kbn/foo-plugin/public').
+ * Kibana package IDs are lowercase, so the comparison ignores case.
+ */
+export function isImportOfPackage(moduleSpecifier: string, packageId: string): boolean {
+  const specifier = moduleSpecifier.toLowerCase();
+  const id = packageId.toLowerCase();
+  return specifier === id || specifier.startsWith(`${id}/`);
+}
+
+// Identifiers that name something other than a local binding: `x.foo`, `{ foo: 1 }`, `Ns.Foo` types
+function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isQualifiedName(parent) && parent.right === node) ||
+    ((ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent)) &&
+      parent.name === node)
+  );
+}
+
+/**
+ * Lines that reference each of the given local names, outside of import/export statements.
+ * Scope-unaware: a local variable shadowing an import is counted too.
+ */
+function findReferenceLines(sourceFile: ts.SourceFile, localNames: Set<string>): Map<string, number[]> {
+  const lines = new Map<string, Set<number>>();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node) || ts.isExportDeclaration(node)) {
+      return;
+    }
+    if (ts.isIdentifier(node) && localNames.has(node.text) && !isPropertyName(node)) {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+      const nameLines = lines.get(node.text) || new Set<number>();
+      nameLines.add(line);
+      lines.set(node.text, nameLines);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return new Map([...lines].map(([name, nameLines]) => [name, [...nameLines].sort((a, b) => a - b)]));
+}
+
+// One import of a symbol from a package, before grouping by symbol
+export interface ImportOccurrence {
+  name: string;
+  isDefault: boolean;
+  sourcePath: string;
+  usage: ImportUsage;
+}
+
+/**
+ * Every name a file imports from a package, with the lines of the file that use each binding.
+ */
+export function findImportsFromPackage(
+  filePath: string,
+  content: string,
+  packageId: string,
+  importedIn: string
+): ImportOccurrence[] {
+  // Parsing is the expensive part - skip files that can't mention the package
+  if (!content.toLowerCase().includes(packageId.toLowerCase())) {
+    return [];
+  }
+
+  const sourceFile = createSourceFile(filePath, content);
+  const imports = parseSourceFileImports(sourceFile).filter((parsed) =>
+    isImportOfPackage(parsed.moduleSpecifier, packageId)
+  );
+
+  // The name the import is bound to in this file - whole-module imports without a binding have none
+  const getLocalName = (imported: ImportedName) => imported.alias ?? (imported.name === '*' ? undefined : imported.name);
+  const localNames = new Set(
+    imports.flatMap((parsed) =>
+      parsed.kind === 're-export' ? [] : parsed.names.map(getLocalName).filter((name): name is string => !!name)
+    )
+  );
+  const referenceLines = localNames.size > 0 ? findReferenceLines(sourceFile, localNames) : new Map<string, number[]>();
+
+  return imports.flatMap((parsed) =>
+    parsed.names.map((imported) => {
+      const localName = parsed.kind === 're-export' ? undefined : getLocalName(imported);
+      return {
+        name: imported.name,
+        isDefault: imported.isDefault,
+        sourcePath: parsed.moduleSpecifier,
+        usage: {
+          filePath,
+          importedIn,
+          line: parsed.line,
+          alias: imported.alias,
+          isTypeOnly: imported.isTypeOnly,
+          importKind: parsed.kind,
+          referenceLines: (localName && referenceLines.get(localName)) || [],
+        },
+      };
+    })
+  );
+}
+
+/**
+ * Group import occurrences by symbol (export name + import path) for the import analysis popup,
+ * most used first. Whole-module references are kept apart per kind, e.g. jest.mock vs import *.
+ */
+export function summarizeImports(occurrences: ImportOccurrence[]): ImportedExport[] {
+  const symbols = new Map<string, ImportedExport & { usages: ImportUsage[] }>();
+
+  for (const { name, isDefault, sourcePath, usage } of occurrences) {
+    const key = `${sourcePath}#${name}` + (name === '*' ? `#${usage.importKind}` : '');
+    const existing = symbols.get(key);
+    if (existing) {
+      existing.usages.push(usage);
+      existing.isTypeOnly = existing.isTypeOnly && usage.isTypeOnly;
+      existing.usageCount = (existing.usageCount ?? 0) + usage.referenceLines.length;
+      continue;
+    }
+    symbols.set(key, {
+      name,
+      alias: usage.alias,
+      isDefault,
+      importedIn: usage.importedIn,
+      sourcePath,
+      line: usage.line,
+      isTypeOnly: usage.isTypeOnly,
+      importKind: usage.importKind,
+      usages: [usage],
+      usageCount: usage.referenceLines.length,
+    });
+  }
+
+  return [...symbols.values()].sort(
+    (a, b) => b.usages.length - a.usages.length || (b.usageCount ?? 0) - (a.usageCount ?? 0) || a.name.localeCompare(b.name)
+  );
+}
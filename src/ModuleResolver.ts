@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { pluginCache } from './PluginCache';
+
+// Reading a tsconfig must not enumerate its `include` globs - only compiler options are needed
+const CONFIG_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  readDirectory: () => [],
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile,
+};
+
+const SOURCE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves import paths to source files the way the TypeScript compiler would: relative paths
+ * and the `paths` of the nearest tsconfig.json (following `extends`). `@kbn/` package IDs the
+ * tsconfig doesn't map fall back to the plugin directories from the plugin cache.
+ * Compiler options are cached per tsconfig - create a new resolver to pick up tsconfig changes.
+ */
+export class ModuleResolver {
+  private readonly _configByDirectory = new Map<string, string | undefined>();
+  private readonly _optionsByConfig = new Map<string, ts.CompilerOptions>();
+
+  constructor(private readonly _rootDir: string) {}
+
+  public resolve(moduleSpecifier: string, containingFile: string): string | undefined {
+    const options = this._getCompilerOptions(containingFile);
+    const resolved = ts.resolveModuleName(moduleSpecifier, containingFile, options, ts.sys).resolvedModule;
+
+    // Declarations of third-party packages aren't source files in the workspace
+    if (resolved && !resolved.resolvedFileName.includes(`${path.sep}node_modules${path.sep}`)) {
+      return path.normalize(resolved.resolvedFileName);
+    }
+    return this._resolvePluginPackage(moduleSpecifier);
+  }
+
+  // '@kbn/data-plugin/common' -> <data plugin>/common/index.ts
+  private _resolvePluginPackage(moduleSpecifier: string): string | undefined {
+    const match = moduleSpecifier.match(/^(@[^/]+\/[^/]+)(?:\/(.*))?$/);
+    const plugin = match ? pluginCache.getByPackageId(match[1].toLowerCase()) : undefined;
+    if (!match || !plugin) {
+      return undefined;
+    }
+    const base = path.join(plugin.directory, match[2] || 'public');
+    return SOURCE_SUFFIXES.map((suffix) => base + suffix).find(isFile);
+  }
+
+  private _getCompilerOptions(containingFile: string): ts.CompilerOptions {
+    const configPath = this._findConfig(path.dirname(containingFile));
+    if (!configPath) {
+      return {};
+    }
+
+    let options = this._optionsByConfig.get(configPath);
+    if (!options) {
+      const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+      options = error
+        ? {}
+        : ts.parseJsonConfigFileContent(config, CONFIG_HOST, path.dirname(configPath), undefined, configPath).options;
+      this._optionsByConfig.set(configPath, options);
+    }
+    return options;
+  }
+
+  // Nearest tsconfig.json at or above a directory, without leaving the workspace
+  private _findConfig(dir: string): string | undefined {
+    if (this._configByDirectory.has(dir)) {
+      return this._configByDirectory.get(dir);
+    }
+    const candidate = path.join(dir, 'tsconfig.json');
+    const parent = path.dirname(dir);
+    const configPath = isFile(candidate)
+      ? candidate
+      : dir === this._rootDir || parent === dir || !dir.startsWith(this._rootDir)
+      ? undefined
+      : this._findConfig(parent);
+    this._configByDirectory.set(dir, configPath);
+    return configPath;
+  }
+}
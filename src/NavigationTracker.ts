@@ -1,23 +1,23 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 import { PathfinderViewProvider } from './PathfinderViewProvider';
 import { StateManager } from './StateManager';
-import { FileNode, NavigationEdge, GroupNode } from './types';
-import { pluginCache } from './PluginCache';
-
-// Local cache for plugin info (for files not yet in global cache)
-interface LocalPluginInfo {
-  id: string; // Package ID like "@kbn/share-plugin"
-  runtimeId: string; // Runtime ID like "share"
-  requiredPlugins?: string[];
-  pluginDir: string; // Absolute path to the plugin directory
-}
-const localPluginInfoCache = new Map<string, LocalPluginInfo | undefined>();
-
-// Clear cache function for debugging/testing
-export function clearPluginInfoCache() {
-  localPluginInfoCache.clear();
+import { FileNode, NavigationEdge, GroupNode, JourneyStep, DependencyKind } from './types';
+import { pluginCache, PluginInfo } from './PluginCache';
+import { PluginDependencyLists, getPluginDependencies, getDependencyIds } from './pluginDependencies';
+
+/**
+ * Generate the stable node ID for a file. IDs are a hash of the absolute path,
+ * so the same file gets a different ID on a different checkout location.
+ */
+export function generateNodeId(filePath: string): string {
+  let hash = 0;
+  for (let i = 0; i < filePath.length; i++) {
+    const char = filePath.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return `node-${Math.abs(hash).toString(16)}`;
 }
 
 // Constants for layout
@@ -40,6 +40,7 @@ export class NavigationTracker implements vscode.Disposable {
   private _lastTrackedSymbol: TrackedSymbol | undefined;
   private _lastContainingSymbol: TrackedSymbol | undefined; // The function/class/type containing the cursor
   private _lastSymbolTimestamp: number = 0;
+  private _ignoredFilePath: string | undefined; // The journey player is opening this file - don't record it
 
   constructor(
     private readonly _viewProvider: PathfinderViewProvider,
@@ -73,6 +74,16 @@ export class NavigationTracker implements vscode.Disposable {
       })
     );
 
+    // Start a fresh journey when the user switches to another session, so the
+    // first file opened afterwards isn't linked to a file from the previous session
+    this._disposables.push(
+      this._stateManager.onDidSwitchSession(() => {
+        this._previousFilePath = undefined;
+        this._lastTrackedSymbol = undefined;
+        this._lastContainingSymbol = undefined;
+      })
+    );
+
     // Initialize with current editor if any
     if (vscode.window.activeTextEditor) {
       this._onEditorChange(vscode.window.activeTextEditor);
@@ -255,6 +266,15 @@ export class NavigationTracker implements vscode.Disposable {
     const filePath = document.uri.fsPath;
     const fileName = path.basename(filePath);
 
+    if (filePath === this._ignoredFilePath) {
+      this._ignoredFilePath = undefined;
+      // Continue the journey from wherever the replay left the editor
+      this._previousFilePath = filePath;
+      this._lastTrackedSymbol = undefined;
+      this._lastContainingSymbol = undefined;
+      return;
+    }
+
     // Generate a unique ID for the node based on file path
     const nodeId = this._generateNodeId(filePath);
 
@@ -276,9 +296,9 @@ export class NavigationTracker implements vscode.Disposable {
     if (!nodeExists) {
       // Get additional metadata
       const pluginInfo = this._findPluginInfo(filePath);
-      const pluginName = pluginInfo?.id;
+      const pluginName = pluginInfo?.packageId;
       // Get path relative to plugin directory (not workspace root)
-      const relativePath = this._getRelativePath(filePath, pluginInfo?.pluginDir);
+      const relativePath = this._getRelativePath(filePath, pluginInfo?.directory);
 
       // Check if we're switching to a new plugin (group doesn't exist yet)
       const groupId = pluginInfo?.runtimeId ? `group-${pluginInfo.runtimeId}` : undefined;
@@ -344,35 +364,37 @@ export class NavigationTracker implements vscode.Disposable {
       }
     }
 
+    // Remember the reference's context for the journey step before it is cleared
+    const containingSymbol = hasRecentSymbol ? this._lastContainingSymbol : undefined;
+
     // Clear the tracked symbols after using them
     if (hasRecentSymbol) {
       this._lastTrackedSymbol = undefined;
       this._lastContainingSymbol = undefined;
     }
 
-    // Create edge from previous file if exists and different
+    // Record the transition from the previous file - every step is kept in order,
+    // and the edge between the two files counts how often it was taken
     if (this._previousFilePath && this._previousFilePath !== filePath) {
-      const sourceId = this._generateNodeId(this._previousFilePath);
-      const targetId = nodeId;
-      const edgeId = `${sourceId}-${targetId}`;
-      const reverseEdgeId = `${targetId}-${sourceId}`;
-
-      // Check if edge already exists in either direction
-      const edgeExists = existingState?.edges.some(
-        (e) => e.id === edgeId || e.id === reverseEdgeId
-      );
-
-      if (!edgeExists) {
-        const newEdge: NavigationEdge = {
-          id: edgeId,
-          source: sourceId,
-          target: targetId,
-        };
+      const timestamp = Date.now();
+      const step: JourneyStep = {
+        id: `step-${timestamp.toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+        source: this._generateNodeId(this._previousFilePath),
+        target: nodeId,
+        sourcePath: this._previousFilePath,
+        targetPath: filePath,
+        timestamp,
+        symbol: navigatedSymbol,
+        containingSymbol,
+      };
 
-        // Add edge to state and notify webview
-        this._stateManager.addEdge(newEdge);
-        this._viewProvider.addEdge(newEdge);
+      const { edge, isNew } = this._stateManager.recordJourneyStep(step);
+      if (isNew) {
+        this._viewProvider.addEdge(edge);
+      } else {
+        this._viewProvider.updateEdge(edge);
       }
+      this._viewProvider.addJourneyStep(step);
     }
 
     // Highlight current node (brief flash) and set as active (persistent)
@@ -420,7 +442,7 @@ export class NavigationTracker implements vscode.Disposable {
               (g) =>
                 g.type === 'plugin' &&
                 g.id !== groupId &&
-                g.requiredPlugins?.includes(runtimeId)
+                getDependencyIds(g).includes(runtimeId)
             );
 
             if (stillRequiredBy) {
@@ -433,25 +455,25 @@ export class NavigationTracker implements vscode.Disposable {
                 type: 'dependency',
                 width: DEP_WIDTH,
                 height: DEP_HEIGHT,
-                requiredPlugins: undefined, // Clear requiredPlugins for dependency groups
+                // Dependency groups don't track their own dependencies
+                requiredPlugins: undefined,
+                optionalPlugins: undefined,
+                requiredBundles: undefined,
+                runtimePluginDependencies: undefined,
               };
               
               this._stateManager.updateGroup(convertedGroup);
               this._viewProvider.updateGroup(convertedGroup);
               
               // Clean up this group's dependency groups since it's no longer a plugin
-              if (groupToRemove.requiredPlugins) {
-                this._cleanupOrphanedDependencies(groupToRemove.requiredPlugins);
-              }
+              this._cleanupOrphanedDependencies(getDependencyIds(groupToRemove));
             } else {
               // No other plugin needs this, remove it entirely
               this._stateManager.deleteGroup(groupId);
               this._viewProvider.removeGroup(groupId);
 
               // Clean up orphaned dependency groups
-              if (groupToRemove.requiredPlugins) {
-                this._cleanupOrphanedDependencies(groupToRemove.requiredPlugins);
-              }
+              this._cleanupOrphanedDependencies(getDependencyIds(groupToRemove));
             }
           }
         } else {
@@ -485,7 +507,7 @@ export class NavigationTracker implements vscode.Disposable {
         (g) =>
           g.type === 'plugin' &&
           g.id !== depGroupId &&
-          g.requiredPlugins?.includes(depPluginId)
+          getDependencyIds(g).includes(depPluginId)
       );
 
       if (!stillRequired) {
@@ -498,13 +520,7 @@ export class NavigationTracker implements vscode.Disposable {
 
   private _generateNodeId(filePath: string): string {
     // Use a hash of the file path for a stable ID
-    let hash = 0;
-    for (let i = 0; i < filePath.length; i++) {
-      const char = filePath.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return `node-${Math.abs(hash).toString(16)}`;
+    return generateNodeId(filePath);
   }
 
   private _getRelativePath(filePath: string, pluginDir?: string): string {
@@ -534,66 +550,17 @@ export class NavigationTracker implements vscode.Disposable {
     return pluginDir;
   }
 
-  private _findPluginInfo(filePath: string): LocalPluginInfo | undefined {
+  private _findPluginInfo(filePath: string): PluginInfo | undefined {
     // Get the workspace root as the boundary
     const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     if (!workspaceRoot) {
       return undefined;
     }
-
-    let currentDir = path.dirname(filePath);
-
-    // Walk up the directory tree, but stay within the workspace
-    while (currentDir.startsWith(workspaceRoot) && currentDir.length >= workspaceRoot.length) {
-      // Check local cache first
-      if (localPluginInfoCache.has(currentDir)) {
-        return localPluginInfoCache.get(currentDir);
-      }
-
-      const kibanaJsonPath = path.join(currentDir, 'kibana.jsonc');
-
-      if (fs.existsSync(kibanaJsonPath)) {
-        try {
-          const content = fs.readFileSync(kibanaJsonPath, 'utf-8');
-          // Parse JSONC: remove comments and trailing commas
-          const jsonContent = content
-            .replace(/\/\/.*$/gm, '') // Remove single-line comments
-            .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
-            .replace(/,(\s*[}\]])/g, '$1'); // Remove trailing commas
-          
-          const parsed = JSON.parse(jsonContent);
-          // requiredPlugins can be at root level or nested in plugin object
-          const requiredPlugins = parsed.requiredPlugins || parsed.plugin?.requiredPlugins || [];
-          const runtimeId = parsed.plugin?.id || parsed.id; // Runtime ID like "share"
-          const pluginInfo: LocalPluginInfo = {
-            id: parsed.id, // Package ID like "@kbn/share-plugin"
-            runtimeId, // Runtime ID like "share"
-            requiredPlugins,
-            pluginDir: currentDir, // Store the plugin directory path
-          };
-
-          // Cache the result for this directory
-          localPluginInfoCache.set(currentDir, pluginInfo);
-          return pluginInfo;
-        } catch (error) {
-          // Failed to parse, cache undefined and continue
-          localPluginInfoCache.set(currentDir, undefined);
-        }
-      }
-
-      // Move up one directory
-      const parentDir = path.dirname(currentDir);
-      if (parentDir === currentDir) {
-        break; // Reached filesystem root
-      }
-      currentDir = parentDir;
-    }
-
-    return undefined;
+    return pluginCache.findByFilePath(filePath, workspaceRoot);
   }
 
   private _ensureGroup(
-    pluginInfo: LocalPluginInfo | undefined,
+    pluginInfo: PluginInfo | undefined,
     existingState: { nodes: FileNode[]; edges: NavigationEdge[]; groups: GroupNode[] }
   ): string | undefined {
     if (!pluginInfo?.runtimeId) {
@@ -602,10 +569,16 @@ export class NavigationTracker implements vscode.Disposable {
 
     // Use runtime ID for group ID (so it matches dependency groups)
     const runtimeId = pluginInfo.runtimeId;
-    const displayName = pluginInfo.id; // Package ID for display
+    const displayName = pluginInfo.packageId; // Package ID for display
     const groupId = `group-${runtimeId}`;
     const existingGroup = existingState.groups.find((g) => g.id === groupId);
-    const pluginPath = this._getPluginPath(pluginInfo.pluginDir);
+    const pluginPath = this._getPluginPath(pluginInfo.directory);
+    const dependencyLists: PluginDependencyLists = {
+      requiredPlugins: pluginInfo.requiredPlugins || [],
+      optionalPlugins: pluginInfo.optionalPlugins || [],
+      requiredBundles: pluginInfo.requiredBundles || [],
+      runtimePluginDependencies: pluginInfo.runtimePluginDependencies || [],
+    };
 
     // Check if a dependency group already exists that we need to convert
     if (existingGroup && existingGroup.type === 'dependency') {
@@ -618,23 +591,22 @@ export class NavigationTracker implements vscode.Disposable {
         type: 'plugin',
         width: mainGroupWidth,
         height: mainGroupHeight,
-        requiredPlugins: pluginInfo.requiredPlugins || [],
+        ...dependencyLists,
         pluginPath,
+        metadata: pluginInfo.metadata,
       };
 
       this._stateManager.updateGroup(upgradedGroup);
       this._viewProvider.updateGroup(upgradedGroup);
 
       // Also create dependency groups for this plugin's dependencies
-      const requiredPlugins = pluginInfo.requiredPlugins || [];
-      this._createDependencyGroups(requiredPlugins, existingGroup.position, groupId);
+      this._createDependencyGroups(getPluginDependencies(dependencyLists), existingGroup.position, groupId);
 
       return groupId;
     }
 
     if (!existingGroup) {
       // Create a brand new plugin group with its dependencies
-      const requiredPlugins = pluginInfo.requiredPlugins || [];
       const currentState = this._stateManager.getState();
       
       // Calculate main group size
@@ -666,22 +638,23 @@ export class NavigationTracker implements vscode.Disposable {
         position: { x: mainGroupX, y: mainGroupY },
         width: mainGroupWidth,
         height: mainGroupHeight,
-        requiredPlugins,
+        ...dependencyLists,
         pluginPath,
+        metadata: pluginInfo.metadata,
       };
 
       this._stateManager.addGroup(newGroup);
       this._viewProvider.addGroup(newGroup);
 
       // Create dependency groups around it (for Plugin mode)
-      this._createDependencyGroups(requiredPlugins, { x: mainGroupX, y: mainGroupY }, groupId);
+      this._createDependencyGroups(getPluginDependencies(dependencyLists), { x: mainGroupX, y: mainGroupY }, groupId);
     }
 
     return groupId;
   }
 
   private _createDependencyGroups(
-    requiredPlugins: string[],
+    dependencies: { pluginId: string; kind: DependencyKind }[],
     mainGroupPosition: { x: number; y: number },
     mainGroupId: string
   ) {
@@ -698,7 +671,7 @@ export class NavigationTracker implements vscode.Disposable {
     const GRID_TOP_MARGIN = 40; // Space between main group and dependency grid
     
     // Calculate the starting position for the grid (centered below main group)
-    const numDeps = requiredPlugins.length;
+    const numDeps = dependencies.length;
     const numRows = Math.ceil(numDeps / GRID_COLUMNS);
     const actualColumns = Math.min(numDeps, GRID_COLUMNS);
     const gridWidth = actualColumns * DEP_WIDTH + (actualColumns - 1) * GRID_GAP_X;
@@ -707,7 +680,7 @@ export class NavigationTracker implements vscode.Disposable {
     const gridStartX = mainGroupPosition.x + (mainGroupWidth - gridWidth) / 2;
     const gridStartY = mainGroupPosition.y + mainGroupHeight + GRID_TOP_MARGIN;
 
-    requiredPlugins.forEach((depPluginId, index) => {
+    dependencies.forEach(({ pluginId: depPluginId, kind }, index) => {
       const depGroupId = `group-${depPluginId}`;
       const depExists = currentState.groups.some((g) => g.id === depGroupId);
       
@@ -735,6 +708,7 @@ export class NavigationTracker implements vscode.Disposable {
           position: { x: depX, y: depY },
           width: DEP_WIDTH,
           height: DEP_HEIGHT,
+          metadata: pluginCache.getByRuntimeId(depPluginId)?.metadata,
         };
 
         this._stateManager.addGroup(depGroup);
@@ -755,6 +729,7 @@ export class NavigationTracker implements vscode.Disposable {
           sourceHandle: 'top-source',
           targetHandle: 'bottom-target',
           edgeType: 'dependency',
+          dependencyKind: kind,
         };
         
         this._stateManager.addEdge(depEdge);
@@ -859,6 +834,65 @@ export class NavigationTracker implements vscode.Disposable {
     };
   }
 
+  /**
+   * Re-stack the file nodes of a group (in their current order) and resize the group to fit.
+   * Used after nodes were added in bulk, e.g. when merging an imported graph.
+   */
+  public reflowGroup(groupId: string) {
+    const state = this._stateManager.getState();
+    const nodesInGroup = state.nodes.filter((n) => n.groupId === groupId);
+    nodesInGroup.forEach((node, index) => {
+      this._stateManager.updateNodePosition(node.id, {
+        x: GROUP_PADDING,
+        y: GROUP_HEADER_HEIGHT + index * (NODE_HEIGHT + NODE_SPACING) + GROUP_PADDING,
+      });
+    });
+    this._updateGroupSize(groupId);
+  }
+
+  /**
+   * Add files to the graph without opening them, each in its plugin group.
+   * Files already on the graph are skipped. Returns the number of nodes added.
+   */
+  public addFileNodes(filePaths: string[]): number {
+    let added = 0;
+    for (const filePath of filePaths) {
+      const nodeId = this._generateNodeId(filePath);
+      const existingState = this._stateManager.getState();
+      if (existingState.nodes.some((n) => n.id === nodeId)) {
+        continue;
+      }
+
+      const pluginInfo = this._findPluginInfo(filePath);
+      const groupId = this._ensureGroup(pluginInfo, existingState);
+      const newNode: FileNode = {
+        id: nodeId,
+        filePath,
+        fileName: path.basename(filePath),
+        relativePath: this._getRelativePath(filePath, pluginInfo?.directory),
+        pluginName: pluginInfo?.packageId,
+        groupId,
+        position: this._calculateNodePosition(existingState, groupId),
+      };
+
+      this._stateManager.addNode(newNode);
+      this._viewProvider.addNode(newNode);
+      if (groupId) {
+        this._updateGroupSize(groupId);
+      }
+      added++;
+    }
+    return added;
+  }
+
+  /**
+   * Skip recording the next editor change to this file, which the journey player is opening.
+   * Pass undefined to stop waiting for it.
+   */
+  public ignoreEditorChange(filePath: string | undefined) {
+    this._ignoredFilePath = filePath;
+  }
+
   /**
    * Handle view mode changes from the webview.
    * Creates or removes dependency groups based on the new mode.
@@ -872,11 +906,11 @@ export class NavigationTracker implements vscode.Disposable {
       const pluginGroups = currentState.groups.filter(g => g.type === 'plugin');
       
       for (const pluginGroup of pluginGroups) {
-        const requiredPlugins = pluginGroup.requiredPlugins || [];
-        if (requiredPlugins.length > 0) {
+        const dependencies = getPluginDependencies(pluginGroup);
+        if (dependencies.length > 0) {
           // Check which dependency groups are missing
           const existingGroupIds = new Set(currentState.groups.map(g => g.id));
-          const missingDeps = requiredPlugins.filter(dep => !existingGroupIds.has(`group-${dep}`));
+          const missingDeps = dependencies.filter(dep => !existingGroupIds.has(`group-${dep.pluginId}`));
           
           if (missingDeps.length > 0) {
             console.log(`[Kibana Pathfinder] Creating ${missingDeps.length} missing dependency groups for ${pluginGroup.label}`);
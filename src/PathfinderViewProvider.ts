@@ -12,8 +12,31 @@ import {
   PluginInfoForWebview,
   SymbolInfo,
   ImportedExport,
+  DiagramFormat,
+  JourneyStep,
+  DependencyAuditFinding,
+  BoundaryViolation,
+  FileImport,
+  FileExpandDirection,
+  CallHierarchyDirection,
 } from './types';
 import { pluginCache } from './PluginCache';
+import { findImportsFromPackage, summarizeImports, parseImports, ImportOccurrence } from './ImportAnalyzer';
+import { getDependencyIds } from './pluginDependencies';
+import { collectPublicApi, summarizePublicApiUsage } from './PublicApiAnalyzer';
+import { findBoundaryViolations } from './BoundaryChecker';
+import { ModuleResolver } from './ModuleResolver';
+import { findImportedFiles, findImportingFiles } from './fileNeighbors';
+
+// The parts of NavigationTracker the view provider talks to (avoids a circular import)
+interface NavigationTrackerHandle {
+  handleModeChange: (mode: string) => void;
+  ignoreEditorChange: (filePath: string | undefined) => void;
+  addFileNodes: (filePaths: string[]) => number;
+}
+
+// Expanding a file or symbol adds at most this many files, so a widely used one doesn't flood the graph
+const MAX_EXPANDED_FILES = 30;
 
 export class PathfinderViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'pathfinder.graphView';
@@ -26,7 +49,8 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
     failsafeTimeout: NodeJS.Timeout | null;
     uri: vscode.Uri;
   }> = new Map();
-  private _navigationTracker?: { handleModeChange: (mode: string) => void };
+  private _navigationTracker?: NavigationTrackerHandle;
+  private _hasLoadedAllPlugins = false; // Whether the webview asked for the full plugin list
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
@@ -36,7 +60,7 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
   /**
    * Set the navigation tracker reference (called from extension.ts after NavigationTracker is created)
    */
-  public setNavigationTracker(tracker: { handleModeChange: (mode: string) => void }) {
+  public setNavigationTracker(tracker: NavigationTrackerHandle) {
     this._navigationTracker = tracker;
   }
 
@@ -238,7 +262,10 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
         this._loadSavedState();
         break;
       case 'openFile':
-        this._openFile(message.filePath);
+        this._openFile(message.filePath, message.line);
+        break;
+      case 'openJourneyStep':
+        this._openJourneyStep(message.filePath, message.line);
         break;
       case 'closeFile':
         this._closeFile(message.filePath);
@@ -269,7 +296,7 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
                 (g) =>
                   g.type === 'plugin' &&
                   g.id !== groupId &&
-                  g.requiredPlugins?.includes(runtimeId)
+                  getDependencyIds(g).includes(runtimeId)
               );
 
               if (stillRequiredBy) {
@@ -282,25 +309,25 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
                   type: 'dependency',
                   width: DEP_WIDTH,
                   height: DEP_HEIGHT,
-                  requiredPlugins: undefined, // Clear requiredPlugins for dependency groups
+                  // Dependency groups don't track their own dependencies
+                  requiredPlugins: undefined,
+                  optionalPlugins: undefined,
+                  requiredBundles: undefined,
+                  runtimePluginDependencies: undefined,
                 };
                 
                 this._stateManager.updateGroup(convertedGroup);
                 this.updateGroup(convertedGroup);
                 
                 // Clean up this group's dependency groups since it's no longer a plugin
-                if (groupToRemove.requiredPlugins) {
-                  this._cleanupOrphanedDependencies(groupToRemove.requiredPlugins);
-                }
+                this._cleanupOrphanedDependencies(getDependencyIds(groupToRemove));
               } else {
                 // No other plugin needs this, remove it entirely
                 this._stateManager.deleteGroup(groupId);
                 this.removeGroup(groupId);
 
                 // Clean up orphaned dependency groups
-                if (groupToRemove.requiredPlugins) {
-                  this._cleanupOrphanedDependencies(groupToRemove.requiredPlugins);
-                }
+                this._cleanupOrphanedDependencies(getDependencyIds(groupToRemove));
               }
             }
           }
@@ -312,8 +339,36 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
         vscode.commands.executeCommand('workbench.action.closeAllEditors');
         break;
       case 'saveState':
+        // Ignore saves that were issued for a session that is no longer active
+        if (message.sessionId && message.sessionId !== this._stateManager.getActiveSession().id) {
+          break;
+        }
         this._stateManager.saveState(message.state);
         break;
+      case 'saveCompleteLayout':
+        this._stateManager.saveCompleteLayoutCache(message.cache);
+        break;
+      case 'exportDiagram':
+        this._exportDiagram(message.format, message.content);
+        break;
+      case 'exportImpactReport':
+        this._exportImpactReport(message.content);
+        break;
+      case 'switchSession':
+        this._stateManager.switchSession(message.sessionId);
+        break;
+      case 'createSession':
+        this._createSession();
+        break;
+      case 'renameSession':
+        this._renameSession(message.sessionId);
+        break;
+      case 'duplicateSession':
+        this._duplicateSession(message.sessionId);
+        break;
+      case 'deleteSession':
+        this._deleteSession(message.sessionId);
+        break;
       case 'searchFiles':
         this._searchFiles(message.pluginId, message.query);
         break;
@@ -332,6 +387,21 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
       case 'analyzeImports':
         this._analyzeImportsFromDependency(message.mainPluginId, message.dependencyPluginId);
         break;
+      case 'analyzePublicApi':
+        this._analyzePublicApi(message.pluginId);
+        break;
+      case 'checkBoundaries':
+        this._checkBoundaries(message.pluginIds);
+        break;
+      case 'requestFileImports':
+        this._resolveFileImports(message.filePaths);
+        break;
+      case 'expandFileNode':
+        this._expandFileNode(message.filePath, message.direction);
+        break;
+      case 'expandCallHierarchy':
+        this._expandCallHierarchy(message.symbol, message.direction);
+        break;
       case 'modeChange':
         if (this._navigationTracker) {
           this._navigationTracker.handleModeChange(message.mode);
@@ -428,144 +498,23 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
       
       console.log(`[Kibana Pathfinder] Looking for imports from: "${depPackageId}"`);
       
-      // Build patterns that match the dependency plugin's package ID
-      // Handle both exact match and subpath imports (e.g., '@kbn/plugin/server')
-      // Use case-insensitive matching to be safe
-      const escapedPackageId = depPackageId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      console.log(`[Kibana Pathfinder] Escaped pattern: "${escapedPackageId}"`);
-      
-      const imports: ImportedExport[] = [];
+      const imports: ImportOccurrence[] = [];
 
       for (const filePath of files) {
         try {
           const content = fs.readFileSync(filePath, 'utf-8');
           const relativePath = path.relative(pluginDir, filePath);
-          
-          // Find all import statements that reference the dependency
-          // Using a simpler line-by-line approach for reliability
-          const lines = content.split('\n');
-          
-          for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
-            const line = lines[lineIdx];
-            // Check if this line imports from the dependency (case-insensitive)
-            const fromMatch = line.match(new RegExp(`from\\s+['"]${escapedPackageId}(?:/[^'"]*)?['"]`, 'i'));
-            const requireMatch = line.match(new RegExp(`require\\s*\\(\\s*['"]${escapedPackageId}(?:/[^'"]*)?['"]\\s*\\)`, 'i'));
-            
-            if (!fromMatch && !requireMatch) continue;
-            
-            // Extract the full import source path (e.g., '@kbn/dashboard-plugin/common')
-            const sourcePathMatch = line.match(/from\s+['"]([^'"]+)['"]/);
-            const sourcePath = sourcePathMatch ? sourcePathMatch[1] : depPackageId;
-            
-            console.log(`[Kibana Pathfinder] Found import in ${relativePath}:${lineIdx + 1}: ${line.substring(0, 100)}`);
-            
-            // Parse named imports: import { foo, bar as baz } from '...'
-            // Also handles: import type { foo } from '...'
-            const namedMatch = line.match(/import\s+(?:type\s+)?\{([^}]+)\}\s*from/);
-            if (namedMatch) {
-              const namedImports = namedMatch[1].split(',').map(s => s.trim());
-              for (const named of namedImports) {
-                if (!named) continue;
-                // Handle "type Foo" inside the braces (e.g., import { type Foo } from '...')
-                const cleanNamed = named.replace(/^type\s+/, '');
-                const aliasMatch = cleanNamed.match(/^(\w+)\s+as\s+(\w+)$/);
-                if (aliasMatch) {
-                  imports.push({
-                    name: aliasMatch[1],
-                    alias: aliasMatch[2],
-                    isDefault: false,
-                    importedIn: relativePath,
-                    sourcePath,
-                  });
-                } else if (cleanNamed) {
-                  imports.push({
-                    name: cleanNamed,
-                    isDefault: false,
-                    importedIn: relativePath,
-                    sourcePath,
-                  });
-                }
-              }
-            }
-            
-            // Parse default imports: import foo from '...'
-            // Also handles: import type foo from '...' (rare but possible)
-            const defaultMatch = line.match(/import\s+(?:type\s+)?(\w+)\s+from/);
-            if (defaultMatch && !line.includes('{')) {
-              imports.push({
-                name: 'default',
-                alias: defaultMatch[1],
-                isDefault: true,
-                importedIn: relativePath,
-                sourcePath,
-              });
-            }
-            
-            // Parse namespace imports: import * as foo from '...'
-            const namespaceMatch = line.match(/import\s+\*\s*as\s+(\w+)\s+from/);
-            if (namespaceMatch) {
-              imports.push({
-                name: '*',
-                alias: namespaceMatch[1],
-                isDefault: false,
-                importedIn: relativePath,
-                sourcePath,
-              });
-            }
-            
-            // Parse combined: import foo, { bar } from '...'
-            const combinedMatch = line.match(/import\s+(\w+)\s*,\s*\{([^}]+)\}\s*from/);
-            if (combinedMatch) {
-              // Default export
-              imports.push({
-                name: 'default',
-                alias: combinedMatch[1],
-                isDefault: true,
-                importedIn: relativePath,
-                sourcePath,
-              });
-              // Named exports
-              const namedImports = combinedMatch[2].split(',').map(s => s.trim());
-              for (const named of namedImports) {
-                if (!named) continue;
-                const aliasMatch = named.match(/^(\w+)\s+as\s+(\w+)$/);
-                if (aliasMatch) {
-                  imports.push({
-                    name: aliasMatch[1],
-                    alias: aliasMatch[2],
-                    isDefault: false,
-                    importedIn: relativePath,
-                    sourcePath,
-                  });
-                } else {
-                  imports.push({
-                    name: named,
-                    isDefault: false,
-                    importedIn: relativePath,
-                    sourcePath,
-                  });
-                }
-              }
-            }
-          }
+          imports.push(...findImportsFromPackage(filePath, content, depPackageId, relativePath));
         } catch {
           // Skip files that can't be read
         }
       }
 
-      console.log(`[Kibana Pathfinder] Total imports found before dedup: ${imports.length}`);
-      
-      // Deduplicate by name (keep first occurrence)
-      const seen = new Map<string, ImportedExport>();
-      for (const imp of imports) {
-        const key = imp.name + (imp.alias ? `-as-${imp.alias}` : '');
-        if (!seen.has(key)) {
-          seen.set(key, imp);
-        }
-      }
+      console.log(`[Kibana Pathfinder] Total imports found: ${imports.length}`);
 
-      const finalImports = Array.from(seen.values());
-      console.log(`[Kibana Pathfinder] Final imports after dedup: ${finalImports.length}`);
+      // One entry per symbol with every file and line that imports it
+      const finalImports = summarizeImports(imports);
+      console.log(`[Kibana Pathfinder] Distinct imported symbols: ${finalImports.length}`);
       if (finalImports.length > 0) {
         console.log(`[Kibana Pathfinder] Sample imports:`, finalImports.slice(0, 5).map(i => i.name));
       }
@@ -581,6 +530,269 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Reverse import analysis: the exports of a plugin's public/server/common entry points and
+   * which plugins import each of them. Scans every plugin in the repo, so it reports progress.
+   */
+  private async _analyzePublicApi(pluginId: string) {
+    try {
+      await pluginCache.initialize();
+      const plugin = pluginCache.getByRuntimeId(pluginId);
+      if (!plugin) {
+        this._postMessage({ type: 'publicApiAnalysis', pluginId, report: null });
+        return;
+      }
+
+      const declarations = collectPublicApi(plugin.directory);
+      const consumers = declarations.length > 0 ? pluginCache.getAllPlugins().filter((p) => p.runtimeId !== pluginId) : [];
+      const importsByPlugin = new Map<string, ImportOccurrence[]>();
+
+      const completed = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Finding consumers of ${plugin.packageId}`,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          for (const consumer of consumers) {
+            if (token.isCancellationRequested) {
+              return false;
+            }
+            progress.report({ message: consumer.packageId, increment: 100 / consumers.length });
+
+            const imports: ImportOccurrence[] = [];
+            try {
+              for (const filePath of await this._findSourceFiles(consumer.directory)) {
+                const content = await fs.promises.readFile(filePath, 'utf-8');
+                const relativePath = path.relative(consumer.directory, filePath);
+                imports.push(...findImportsFromPackage(filePath, content, plugin.packageId, relativePath));
+              }
+            } catch {
+              // Skip plugins whose files can't be read
+            }
+            if (imports.length > 0) {
+              importsByPlugin.set(consumer.runtimeId, imports);
+            }
+          }
+          return true;
+        }
+      );
+
+      this._postMessage({
+        type: 'publicApiAnalysis',
+        pluginId,
+        report: completed
+          ? summarizePublicApiUsage(pluginId, plugin.packageId, declarations, importsByPlugin, consumers.length)
+          : null,
+      });
+    } catch (error) {
+      console.error('[Kibana Pathfinder] Error analyzing public API:', error);
+      this._postMessage({ type: 'publicApiAnalysis', pluginId, report: null });
+    }
+  }
+
+  private async _checkBoundaries(pluginIds: string[]) {
+    const violations: BoundaryViolation[] = [];
+    try {
+      await pluginCache.initialize();
+      for (const pluginId of pluginIds) {
+        const plugin = pluginCache.getByRuntimeId(pluginId);
+        if (plugin) {
+          violations.push(...(await findBoundaryViolations(plugin, await this._findSourceFiles(plugin.directory))));
+        }
+      }
+    } catch (error) {
+      console.error('[Kibana Pathfinder] Error checking import boundaries:', error);
+    }
+    this._postMessage({ type: 'boundaryViolations', pluginIds, violations });
+  }
+
+  /**
+   * Static imports among the files on the graph, for Journey mode's import overlay.
+   * A file imported through several statements gets one edge, type-only only if all of them are.
+   */
+  private async _resolveFileImports(filePaths: string[]) {
+    const imports = new Map<string, FileImport>();
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+    if (workspaceRoot) {
+      // A fresh resolver per request keeps tsconfig changes from going stale
+      const resolver = new ModuleResolver(workspaceRoot);
+      const onGraph = new Set(filePaths.map((filePath) => path.normalize(filePath)));
+
+      for (const source of onGraph) {
+        let content: string;
+        try {
+          content = await fs.promises.readFile(source, 'utf-8');
+        } catch {
+          continue;
+        }
+        for (const parsed of parseImports(source, content)) {
+          if (parsed.kind === 'jest-mock') {
+            continue;
+          }
+          const target = resolver.resolve(parsed.moduleSpecifier, source);
+          if (!target || target === source || !onGraph.has(target)) {
+            continue;
+          }
+          const key = `${source}>${target}`;
+          const isTypeOnly = parsed.names.every((name) => name.isTypeOnly);
+          const existing = imports.get(key);
+          imports.set(key, { source, target, isTypeOnly: (existing?.isTypeOnly ?? true) && isTypeOnly });
+        }
+      }
+    }
+
+    this._postMessage({ type: 'fileImports', imports: [...imports.values()] });
+  }
+
+  /**
+   * Add a file's direct imports or importers to the graph. Importers are searched for in the
+   * whole workspace, which can take a while in Kibana, so that runs with a cancellable progress.
+   */
+  private async _expandFileNode(filePath: string, direction: FileExpandDirection) {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot || !this._navigationTracker) {
+      return;
+    }
+    await pluginCache.initialize();
+    const resolver = new ModuleResolver(workspaceRoot);
+    const fileName = path.basename(filePath);
+
+    let related: string[] | undefined;
+    try {
+      if (direction === 'imports') {
+        related = await findImportedFiles(filePath, resolver);
+      } else {
+        related = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Finding files that import ${fileName}`, cancellable: true },
+          async (_progress, token) => {
+            const candidates = await vscode.workspace.findFiles(
+              '**/*.{ts,tsx,js,jsx}',
+              '**/{node_modules,target,build}/**',
+              undefined,
+              token
+            );
+            return findImportingFiles(
+              filePath,
+              candidates.map((uri) => uri.fsPath),
+              resolver,
+              () => token.isCancellationRequested
+            );
+          }
+        );
+      }
+    } catch (error) {
+      console.error(`[Kibana Pathfinder] Error expanding ${filePath}:`, error);
+    }
+    if (!related) {
+      return;
+    }
+
+    const label = direction === 'imports' ? 'imports' : 'importers';
+    if (related.length === 0) {
+      vscode.window.showInformationMessage(`No ${label} of ${fileName} found in the workspace.`);
+      return;
+    }
+    const added = this._navigationTracker.addFileNodes(related.slice(0, MAX_EXPANDED_FILES));
+    if (related.length > MAX_EXPANDED_FILES) {
+      vscode.window.showInformationMessage(
+        `${fileName} has ${related.length} ${label} - added the first ${MAX_EXPANDED_FILES} to the graph.`
+      );
+    } else if (added === 0) {
+      vscode.window.showInformationMessage(`All ${label} of ${fileName} are already on the graph.`);
+    }
+  }
+
+  /**
+   * Add a symbol's callers or callees, as reported by the language server's call hierarchy, to the graph.
+   * Each call gets the function on the other end as a symbol and a call edge labeled 'caller → callee'.
+   */
+  private async _expandCallHierarchy(symbol: SymbolInfo, direction: CallHierarchyDirection) {
+    if (!this._navigationTracker) {
+      return;
+    }
+
+    let related: vscode.CallHierarchyItem[] = [];
+    try {
+      const uri = vscode.Uri.file(symbol.filePath);
+      const document = await vscode.workspace.openTextDocument(uri);
+      const lineText = document.lineAt(symbol.line - 1).text;
+      const position = new vscode.Position(symbol.line - 1, Math.max(0, lineText.indexOf(symbol.name)));
+      const [item] =
+        (await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>('vscode.prepareCallHierarchy', uri, position)) || [];
+      if (!item) {
+        vscode.window.showInformationMessage(`No call hierarchy is available for ${symbol.name}.`);
+        return;
+      }
+
+      if (direction === 'incoming') {
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>('vscode.provideIncomingCalls', item);
+        related = (calls || []).map((call) => call.from);
+      } else {
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>('vscode.provideOutgoingCalls', item);
+        related = (calls || []).map((call) => call.to);
+      }
+    } catch (error) {
+      console.error(`[Kibana Pathfinder] Error querying the call hierarchy of ${symbol.name}:`, error);
+      return;
+    }
+
+    // Library code (node_modules, lib.d.ts) isn't part of the journey
+    related = related.filter(
+      (item) => item.uri.scheme === 'file' && !item.uri.fsPath.includes(`${path.sep}node_modules${path.sep}`)
+    );
+    const label = direction === 'incoming' ? 'callers' : 'callees';
+    if (related.length === 0) {
+      vscode.window.showInformationMessage(`No ${label} of ${symbol.name} found.`);
+      return;
+    }
+
+    const files = [...new Set(related.map((item) => item.uri.fsPath))];
+    const addedFiles = new Set(files.slice(0, MAX_EXPANDED_FILES));
+    this._navigationTracker.addFileNodes([...addedFiles]);
+    if (files.length > MAX_EXPANDED_FILES) {
+      vscode.window.showInformationMessage(
+        `${symbol.name} has ${label} in ${files.length} files - added the first ${MAX_EXPANDED_FILES} to the graph.`
+      );
+    }
+
+    const nodeIdsByPath = new Map(this._stateManager.getState().nodes.map((n) => [n.filePath, n.id]));
+    const symbolNodeId = nodeIdsByPath.get(symbol.filePath);
+    for (const item of related) {
+      const nodeId = nodeIdsByPath.get(item.uri.fsPath);
+      if (!nodeId || !addedFiles.has(item.uri.fsPath)) {
+        continue;
+      }
+
+      const relatedSymbol: SymbolInfo = {
+        name: item.name,
+        line: item.selectionRange.start.line + 1,
+        filePath: item.uri.fsPath,
+      };
+      // Callers contain the reference, callees are where it leads - like a followed reference
+      if (direction === 'incoming') {
+        this._stateManager.addSourceSymbolToNode(nodeId, relatedSymbol);
+        this.addSourceSymbolToNode(nodeId, relatedSymbol);
+      } else {
+        this._stateManager.addSymbolToNode(nodeId, relatedSymbol);
+        this.addSymbolToNode(nodeId, relatedSymbol);
+      }
+
+      if (symbolNodeId && symbolNodeId !== nodeId) {
+        const { edge, isNew } =
+          direction === 'incoming'
+            ? this._stateManager.recordCall(nodeId, symbolNodeId, `${item.name} → ${symbol.name}`)
+            : this._stateManager.recordCall(symbolNodeId, nodeId, `${symbol.name} → ${item.name}`);
+        if (isNew) {
+          this.addEdge(edge);
+        } else {
+          this.updateEdge(edge);
+        }
+      }
+    }
+  }
+
   private async _findSourceFiles(dir: string): Promise<string[]> {
     const files: string[] = [];
     const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -603,19 +815,44 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
     return files;
   }
 
-  private async _openFile(filePath: string) {
+  private async _openFile(filePath: string, line?: number) {
     try {
       const uri = vscode.Uri.file(filePath);
       const document = await vscode.workspace.openTextDocument(uri);
+      const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
       await vscode.window.showTextDocument(document, {
         preserveFocus: false,
         preview: false,
+        selection: line ? new vscode.Range(position, position) : undefined,
       });
     } catch (error) {
       vscode.window.showErrorMessage(`Could not open file: ${filePath}`);
     }
   }
 
+  /**
+   * Open a file for the journey replay. Keeps focus in the panel so the player stays usable,
+   * and reveals the symbol that was followed to reach the file.
+   */
+  private async _openJourneyStep(filePath: string, line?: number) {
+    // The editor change this causes is the replay's, not a navigation to record
+    this._navigationTracker?.ignoreEditorChange(filePath);
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
+      await vscode.window.showTextDocument(document, {
+        preserveFocus: true,
+        preview: false,
+        selection: line ? new vscode.Range(position, position) : undefined,
+      });
+    } catch (error) {
+      vscode.window.showWarningMessage(`Could not open file from the journey: ${filePath}`);
+    } finally {
+      // Already the active editor, so no change event came
+      this._navigationTracker?.ignoreEditorChange(undefined);
+    }
+  }
+
   private async _closeFile(filePath: string) {
     try {
       const uri = vscode.Uri.file(filePath);
@@ -657,7 +894,7 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
         (g) =>
           g.type === 'plugin' &&
           g.id !== depGroupId &&
-          g.requiredPlugins?.includes(depPluginId)
+          getDependencyIds(g).includes(depPluginId)
       );
 
       if (!stillRequired) {
@@ -669,9 +906,148 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
   }
 
   private _loadSavedState() {
+    // Always post the state (even when empty) so switching to an empty session clears the graph
     const state = this._stateManager.getState();
-    if (state && (state.nodes.length > 0 || state.edges.length > 0)) {
-      this._postMessage({ type: 'loadState', state });
+    this._postMessage({ type: 'loadState', state, session: this._stateManager.getActiveSession() });
+    this._postSessionList();
+  }
+
+  private _postSessionList() {
+    this._postMessage({
+      type: 'sessionList',
+      sessions: this._stateManager.getSessions(),
+      activeSessionId: this._stateManager.getActiveSession().id,
+    });
+  }
+
+  /**
+   * Replace everything the webview shows with the current StateManager state
+   * (after a session switch or a graph import)
+   */
+  public reloadState() {
+    this._postMessage({ type: 'clear' });
+    this._loadSavedState();
+  }
+
+  /**
+   * Re-send the full plugin list after kibana.jsonc files changed, so Complete and 3D mode
+   * pick up added, removed and edited plugins. Does nothing until the webview first asks for it.
+   */
+  public refreshAllPlugins() {
+    if (this._hasLoadedAllPlugins) {
+      this._loadAllPlugins();
+    }
+  }
+
+  public setDependencyAudit(findings: DependencyAuditFinding[]) {
+    this._postMessage({ type: 'dependencyAudit', findings });
+  }
+
+  /**
+   * Open an exported diagram in a new editor and copy it to the clipboard.
+   * Mermaid is wrapped in a fenced block so it renders when pasted into GitHub PRs.
+   */
+  private async _exportDiagram(format: DiagramFormat, content: string) {
+    try {
+      await vscode.env.clipboard.writeText(content);
+      let document: vscode.TextDocument;
+      if (format === 'mermaid') {
+        document = await vscode.workspace.openTextDocument({
+          content: '```mermaid\n' + content + '```\n',
+          language: 'markdown',
+        });
+      } else {
+        try {
+          document = await vscode.workspace.openTextDocument({ content, language: 'dot' });
+        } catch {
+          // No DOT language extension installed
+          document = await vscode.workspace.openTextDocument({ content, language: 'plaintext' });
+        }
+      }
+      await vscode.window.showTextDocument(document, { preview: false });
+      vscode.window.showInformationMessage(
+        `${format === 'mermaid' ? 'Mermaid' : 'Graphviz DOT'} diagram copied to the clipboard`
+      );
+    } catch (error) {
+      console.error('[Kibana Pathfinder] Error exporting diagram:', error);
+      vscode.window.showErrorMessage('Could not export the diagram');
+    }
+  }
+
+  /**
+   * Open an impact report (a plugin's dependents and their owners) as Markdown and copy it to the clipboard.
+   */
+  private async _exportImpactReport(content: string) {
+    try {
+      await vscode.env.clipboard.writeText(content);
+      const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+      await vscode.window.showTextDocument(document, { preview: false });
+      vscode.window.showInformationMessage('Impact report copied to the clipboard');
+    } catch (error) {
+      console.error('[Kibana Pathfinder] Error exporting impact report:', error);
+      vscode.window.showErrorMessage('Could not export the impact report');
+    }
+  }
+
+  private async _createSession() {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name for the new Pathfinder session',
+      placeHolder: 'e.g. Dashboard panel bug',
+      validateInput: (value) => (value.trim() ? undefined : 'Session name cannot be empty'),
+    });
+    if (name) {
+      this._stateManager.createSession(name.trim());
+    }
+  }
+
+  private async _renameSession(sessionId: string) {
+    const session = this._stateManager.getSessions().find((s) => s.id === sessionId);
+    if (!session) {
+      return;
+    }
+    const name = await vscode.window.showInputBox({
+      prompt: 'Rename Pathfinder session',
+      value: session.name,
+      validateInput: (value) => (value.trim() ? undefined : 'Session name cannot be empty'),
+    });
+    if (name && this._stateManager.renameSession(sessionId, name.trim())) {
+      this._postSessionList();
+    }
+  }
+
+  private async _duplicateSession(sessionId: string) {
+    const session = this._stateManager.getSessions().find((s) => s.id === sessionId);
+    if (!session) {
+      return;
+    }
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name for the duplicated session',
+      value: `${session.name} (copy)`,
+      validateInput: (value) => (value.trim() ? undefined : 'Session name cannot be empty'),
+    });
+    if (name) {
+      this._stateManager.duplicateSession(sessionId, name.trim());
+    }
+  }
+
+  private async _deleteSession(sessionId: string) {
+    const sessions = this._stateManager.getSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      return;
+    }
+    if (sessions.length <= 1) {
+      vscode.window.showInformationMessage('The last Pathfinder session cannot be deleted.');
+      return;
+    }
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete session "${session.name}" and its journey graph?`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirmation === 'Delete' && this._stateManager.deleteSession(sessionId)) {
+      // Deleting a non-active session does not trigger a switch, so refresh the list here
+      this._postSessionList();
     }
   }
 
@@ -923,6 +1299,8 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
   }
 
   private async _loadAllPlugins() {
+    this._hasLoadedAllPlugins = true;
+
     // Ensure plugin cache is initialized
     await pluginCache.initialize();
 
@@ -930,12 +1308,20 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
     const allPlugins = pluginCache.getAllPlugins();
 
     // Map to the webview format
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     const plugins: PluginInfoForWebview[] = allPlugins.map((p) => ({
       runtimeId: p.runtimeId,
       packageId: p.packageId,
       requiredPlugins: p.requiredPlugins,
+      optionalPlugins: p.optionalPlugins,
+      requiredBundles: p.requiredBundles,
+      runtimePluginDependencies: p.runtimePluginDependencies,
+      metadata: p.metadata,
+      directory: (workspaceRoot ? path.relative(workspaceRoot, p.directory) : p.directory).split(path.sep).join('/'),
     }));
 
+    // The cached layout has to arrive first, so the Complete mode layout can use it instead of recalculating
+    this._postMessage({ type: 'completeLayoutCache', cache: this._stateManager.getCompleteLayoutCache() });
     this._postMessage({ type: 'allPlugins', plugins });
   }
 
@@ -955,6 +1341,14 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
     this._postMessage({ type: 'addEdge', edge });
   }
 
+  public updateEdge(edge: NavigationEdge) {
+    this._postMessage({ type: 'updateEdge', edge });
+  }
+
+  public addJourneyStep(step: JourneyStep) {
+    this._postMessage({ type: 'addJourneyStep', step });
+  }
+
   public addGroup(group: GroupNode) {
     this._postMessage({ type: 'addGroup', group });
   }
@@ -992,7 +1386,7 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
   }
 
   public updateState(state: GraphState) {
-    this._postMessage({ type: 'loadState', state });
+    this._postMessage({ type: 'loadState', state, session: this._stateManager.getActiveSession() });
   }
 
   private _getHtmlForWebview(webview: vscode.Webview) {
@@ -1011,7 +1405,7 @@ export class PathfinderViewProvider implements vscode.WebviewViewProvider {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' blob:; worker-src ${webview.cspSource} blob:;">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' blob:; worker-src ${webview.cspSource} blob:; connect-src ${webview.cspSource};">
     <title>Pathfinder</title>
     <style>
       html, body, #root {
@@ -1,18 +1,109 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PluginDependencyLists } from './pluginDependencies';
+import { PluginMetadata } from './types';
 
 export interface PluginInfo {
   runtimeId: string; // plugin.id like "share"
   packageId: string; // id like "@kbn/share-plugin"
   directory: string; // path to plugin directory
+  manifestPath: string; // path to the kibana.jsonc this info was read from
   requiredPlugins: string[]; // dependencies
+  optionalPlugins: string[];
+  requiredBundles: string[];
+  runtimePluginDependencies: string[];
+  metadata: PluginMetadata;
 }
 
+// The parts of a kibana.jsonc manifest Pathfinder uses
+export interface KibanaManifest extends Required<PluginDependencyLists> {
+  packageId: string; // id like "@kbn/share-plugin"
+  runtimeId?: string; // plugin.id like "share" - packages don't have one
+  metadata: PluginMetadata;
+}
+
+/**
+ * Read and parse a kibana.jsonc file. Returns undefined if it can't be read or parsed.
+ */
+export function parseKibanaManifest(manifestPath: string): KibanaManifest | undefined {
+  try {
+    const content = fs.readFileSync(manifestPath, 'utf-8');
+    // Parse JSONC: remove comments and trailing commas
+    const jsonContent = content
+      .replace(/\/\/.*$/gm, '') // Remove single-line comments
+      .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
+      .replace(/,(\s*[}\]])/g, '$1'); // Remove trailing commas
+
+    const parsed = JSON.parse(jsonContent);
+    // Dependency lists live in the plugin object, but older manifests have them at the root
+    const getList = (field: keyof PluginDependencyLists): string[] => parsed.plugin?.[field] || parsed[field] || [];
+
+    return {
+      packageId: parsed.id || '',
+      runtimeId: parsed.plugin?.id,
+      requiredPlugins: getList('requiredPlugins'),
+      optionalPlugins: getList('optionalPlugins'),
+      requiredBundles: getList('requiredBundles'),
+      runtimePluginDependencies: getList('runtimePluginDependencies'),
+      metadata: {
+        owner: Array.isArray(parsed.owner) ? parsed.owner : parsed.owner ? [parsed.owner] : [],
+        type: parsed.type,
+        group: parsed.group,
+        visibility: parsed.visibility,
+        browser: parsed.plugin?.browser,
+        server: parsed.plugin?.server,
+      },
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the manifest declares a plugin (plugin.id). Packages like @kbn/i18n store their
+ * package ID as the runtime ID and can't be listed as plugin dependencies.
+ */
+export function isRuntimePlugin(info: PluginInfo): boolean {
+  return info.runtimeId !== info.packageId;
+}
+
+// Bump when PluginInfo or the index layout changes so old indexes are rebuilt
+const INDEX_VERSION = 1;
+const INDEX_FILE_NAME = 'plugin-index.json';
+
+// What gets written to the extension's workspace storage
+interface PersistedPluginIndex {
+  version: number;
+  entries: { info: PluginInfo; mtimeMs: number }[];
+}
+
+// Wait this long after the last manifest change before notifying listeners,
+// so a branch switch touching hundreds of manifests results in one refresh
+const CHANGE_DEBOUNCE_MS = 500;
+
 class PluginCacheManager {
   private _cache: Map<string, PluginInfo> = new Map();
+  private _byManifest: Map<string, PluginInfo> = new Map();
+  private _mtimes: Map<string, number> = new Map(); // manifest path -> mtime when it was read
+  // Manifests that can't be parsed or declare no ID, so lookups don't re-read them on every navigation
+  private _unusableManifests: Set<string> = new Set();
   private _initialized = false;
   private _initPromise: Promise<void> | null = null;
+  private _changeTimeout: NodeJS.Timeout | undefined;
+  private _indexPath: string | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires (debounced) after plugins were added, updated or removed because a kibana.jsonc changed. */
+  public readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * Persist the index in the given storage folder (the extension's workspace storage).
+   * Must be called before initialize() for the saved index to be used.
+   */
+  public setStorageUri(storageUri: vscode.Uri | undefined): void {
+    this._indexPath = storageUri ? path.join(storageUri.fsPath, INDEX_FILE_NAME) : undefined;
+  }
 
   public async initialize(): Promise<void> {
     if (this._initialized) {
@@ -24,11 +115,51 @@ class PluginCacheManager {
       return this._initPromise;
     }
 
-    this._initPromise = this._buildCache();
+    this._initPromise = this._loadIndex().then((loaded) => {
+      if (loaded) {
+        // The saved index is usable right away - check it against the disk in the background
+        this._validateIndex();
+        return;
+      }
+      return this._buildCache().then(() => this._saveIndex());
+    });
     await this._initPromise;
     this._initialized = true;
   }
 
+  /**
+   * Keep the cache in sync with kibana.jsonc files on disk. Call once at activation.
+   */
+  public watch(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/kibana.jsonc');
+    const upsert = (uri: vscode.Uri) => {
+      if (this._isIgnored(uri.fsPath)) {
+        return;
+      }
+      this._upsertManifest(uri.fsPath);
+      this._scheduleChange();
+    };
+
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidCreate(upsert),
+      watcher.onDidChange(upsert),
+      watcher.onDidDelete((uri) => {
+        if (this._removeManifest(uri.fsPath)) {
+          this._scheduleChange();
+        }
+      }),
+      {
+        dispose: () => {
+          if (this._changeTimeout) {
+            clearTimeout(this._changeTimeout);
+          }
+          this._onDidChange.dispose();
+        },
+      }
+    );
+  }
+
   private async _buildCache(): Promise<void> {
     try {
       // Search for ALL kibana.jsonc files (no limit)
@@ -37,48 +168,7 @@ class PluginCacheManager {
       console.log(`[Pathfinder] Building plugin cache from ${kibanaJsonFiles.length} kibana.jsonc files`);
 
       for (const file of kibanaJsonFiles) {
-        try {
-          const content = fs.readFileSync(file.fsPath, 'utf-8');
-          const jsonContent = content
-            .replace(/\/\/.*$/gm, '') // Remove single-line comments
-            .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
-            .replace(/,(\s*[}\]])/g, '$1'); // Remove trailing commas
-
-          const parsed = JSON.parse(jsonContent);
-          const runtimeId = parsed.plugin?.id;
-          const packageId = parsed.id || '';
-          const pluginDir = path.dirname(file.fsPath);
-          const requiredPlugins = parsed.plugin?.requiredPlugins || parsed.requiredPlugins || [];
-
-          // Handle both plugins (with plugin.id) and packages (without plugin.id)
-          if (runtimeId || packageId) {
-            // For packages without a runtime ID, use the package ID as the runtime ID
-            // This avoids collisions with actual plugin runtime IDs
-            const effectiveRuntimeId = runtimeId || packageId;
-            
-            const info: PluginInfo = {
-              runtimeId: effectiveRuntimeId,
-              packageId,
-              directory: pluginDir,
-              requiredPlugins,
-            };
-
-            // Store by runtime ID (exact and lowercase) - but only if it's a real plugin ID
-            // to avoid packages overwriting plugins
-            if (runtimeId) {
-              this._cache.set(runtimeId, info);
-              this._cache.set(runtimeId.toLowerCase(), info);
-            }
-
-            // Always store by package ID for lookups
-            if (packageId) {
-              this._cache.set(packageId, info);
-              this._cache.set(packageId.toLowerCase(), info);
-            }
-          }
-        } catch {
-          // Skip files that can't be parsed
-        }
+        this._upsertManifest(file.fsPath);
       }
 
       console.log(`[Pathfinder] Plugin cache built with ${this._cache.size} entries`);
@@ -87,6 +177,230 @@ class PluginCacheManager {
     }
   }
 
+  /**
+   * Fill the cache from the saved index. Returns false if there is no usable index.
+   */
+  private async _loadIndex(): Promise<boolean> {
+    if (!this._indexPath) {
+      return false;
+    }
+    try {
+      const index: PersistedPluginIndex = JSON.parse(await fs.promises.readFile(this._indexPath, 'utf-8'));
+      if (index.version !== INDEX_VERSION || !Array.isArray(index.entries)) {
+        return false;
+      }
+      for (const { info, mtimeMs } of index.entries) {
+        this._addInfo(info);
+        this._mtimes.set(info.manifestPath, mtimeMs);
+      }
+      console.log(`[Pathfinder] Plugin cache loaded ${index.entries.length} plugins from saved index`);
+      return true;
+    } catch {
+      return false; // Missing or corrupt index - rebuild from scratch
+    }
+  }
+
+  /**
+   * Re-read manifests that changed since the index was saved, drop deleted ones and pick up new ones.
+   */
+  private async _validateIndex(): Promise<void> {
+    let changed = false;
+    try {
+      for (const manifestPath of [...this._byManifest.keys()]) {
+        const mtimeMs = await this._getMtime(manifestPath);
+        if (mtimeMs === undefined) {
+          changed = this._removeManifest(manifestPath) || changed;
+        } else if (mtimeMs !== this._mtimes.get(manifestPath)) {
+          this._upsertManifest(manifestPath);
+          changed = true;
+        }
+      }
+
+      // Manifests added while the window was closed
+      const kibanaJsonFiles = await vscode.workspace.findFiles('**/kibana.jsonc', '**/node_modules/**');
+      for (const file of kibanaJsonFiles) {
+        if (!this._byManifest.has(file.fsPath) && this._upsertManifest(file.fsPath)) {
+          changed = true;
+        }
+      }
+    } catch (error) {
+      console.error('[Pathfinder] Error validating plugin index:', error);
+    }
+
+    if (changed) {
+      console.log('[Pathfinder] Plugin index was stale, refreshed changed manifests');
+      this._scheduleChange();
+    }
+  }
+
+  private async _getMtime(manifestPath: string): Promise<number | undefined> {
+    try {
+      return (await fs.promises.stat(manifestPath)).mtimeMs;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async _saveIndex(): Promise<void> {
+    if (!this._indexPath) {
+      return;
+    }
+    const index: PersistedPluginIndex = {
+      version: INDEX_VERSION,
+      entries: [...this._byManifest.values()].map((info) => ({
+        info,
+        mtimeMs: this._mtimes.get(info.manifestPath) ?? 0,
+      })),
+    };
+    try {
+      await fs.promises.mkdir(path.dirname(this._indexPath), { recursive: true });
+      await fs.promises.writeFile(this._indexPath, JSON.stringify(index));
+    } catch (error) {
+      console.error('[Pathfinder] Error saving plugin index:', error);
+    }
+  }
+
+  private _isIgnored(manifestPath: string): boolean {
+    return manifestPath.split(path.sep).includes('node_modules');
+  }
+
+  /**
+   * Read a manifest and add or replace the plugin it declares.
+   * Returns the new info, or undefined if the manifest can't be used.
+   */
+  private _upsertManifest(manifestPath: string): PluginInfo | undefined {
+    // Drop the previous version first - the manifest may now declare different IDs
+    this._removeManifest(manifestPath);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(manifestPath).mtimeMs;
+    } catch {
+      return undefined; // Deleted before we got to it
+    }
+    const manifest = parseKibanaManifest(manifestPath);
+    if (!manifest) {
+      this._unusableManifests.add(manifestPath);
+      return undefined; // Skip files that can't be parsed
+    }
+    const { runtimeId, packageId } = manifest;
+
+    // Handle both plugins (with plugin.id) and packages (without plugin.id)
+    if (!runtimeId && !packageId) {
+      this._unusableManifests.add(manifestPath);
+      return undefined;
+    }
+
+    // For packages without a runtime ID, use the package ID as the runtime ID
+    // This avoids collisions with actual plugin runtime IDs
+    const effectiveRuntimeId = runtimeId || packageId;
+
+    const info: PluginInfo = {
+      runtimeId: effectiveRuntimeId,
+      packageId,
+      directory: path.dirname(manifestPath),
+      manifestPath,
+      requiredPlugins: manifest.requiredPlugins,
+      optionalPlugins: manifest.optionalPlugins,
+      requiredBundles: manifest.requiredBundles,
+      runtimePluginDependencies: manifest.runtimePluginDependencies,
+      metadata: manifest.metadata,
+    };
+
+    this._addInfo(info);
+    this._mtimes.set(manifestPath, mtimeMs);
+    return info;
+  }
+
+  private _addInfo(info: PluginInfo): void {
+    const { packageId } = info;
+    // Packages store their package ID as the runtime ID
+    const runtimeId = isRuntimePlugin(info) ? info.runtimeId : undefined;
+
+    // Store by runtime ID (exact and lowercase) - but only if it's a real plugin ID
+    // to avoid packages overwriting plugins
+    if (runtimeId) {
+      this._cache.set(runtimeId, info);
+      this._cache.set(runtimeId.toLowerCase(), info);
+    }
+
+    // Always store by package ID for lookups
+    if (packageId) {
+      this._cache.set(packageId, info);
+      this._cache.set(packageId.toLowerCase(), info);
+    }
+
+    this._byManifest.set(info.manifestPath, info);
+  }
+
+  /**
+   * Remove the plugin read from a manifest. Returns whether anything was removed.
+   */
+  private _removeManifest(manifestPath: string): boolean {
+    this._unusableManifests.delete(manifestPath);
+    const info = this._byManifest.get(manifestPath);
+    if (!info) {
+      return false;
+    }
+    this._byManifest.delete(manifestPath);
+    this._mtimes.delete(manifestPath);
+    for (const key of [info.runtimeId, info.packageId]) {
+      for (const variant of [key, key.toLowerCase()]) {
+        // Another manifest may have claimed the same key since
+        if (this._cache.get(variant) === info) {
+          this._cache.delete(variant);
+        }
+      }
+    }
+    return true;
+  }
+
+  private _scheduleChange(): void {
+    if (this._changeTimeout) {
+      clearTimeout(this._changeTimeout);
+    }
+    this._changeTimeout = setTimeout(() => {
+      this._changeTimeout = undefined;
+      this._onDidChange.fire();
+      this._saveIndex();
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Find the plugin or package that contains a file by walking up to the nearest kibana.jsonc,
+   * staying within the given root. Manifests the cache hasn't seen yet (e.g. before the initial
+   * build finishes) are read and added on the way; unusable ones are remembered until they change.
+   */
+  public findByFilePath(filePath: string, rootDir: string): PluginInfo | undefined {
+    let currentDir = path.dirname(filePath);
+
+    // Walk up the directory tree, but stay within the root
+    while (currentDir.startsWith(rootDir) && currentDir.length >= rootDir.length) {
+      const manifestPath = path.join(currentDir, 'kibana.jsonc');
+      const cached = this._byManifest.get(manifestPath);
+      if (cached) {
+        return cached;
+      }
+
+      if (!this._unusableManifests.has(manifestPath) && fs.existsSync(manifestPath)) {
+        const info = this._upsertManifest(manifestPath);
+        if (info) {
+          return info;
+        }
+        // Failed to parse, continue with the parent directory
+      }
+
+      // Move up one directory
+      const parentDir = path.dirname(currentDir);
+      if (parentDir === currentDir) {
+        break; // Reached filesystem root
+      }
+      currentDir = parentDir;
+    }
+
+    return undefined;
+  }
+
   public getByRuntimeId(runtimeId: string): PluginInfo | undefined {
     return this._cache.get(runtimeId) || this._cache.get(runtimeId.toLowerCase());
   }
@@ -112,6 +426,8 @@ class PluginCacheManager {
 
   public clear(): void {
     this._cache.clear();
+    this._byManifest.clear();
+    this._mtimes.clear();
     this._initialized = false;
     this._initPromise = null;
   }
@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { createSourceFile, ImportOccurrence } from './ImportAnalyzer';
+import { PublicApiEntry, PublicApiExport, PublicApiReport } from './types';
+
+export const PUBLIC_API_ENTRIES: PublicApiEntry[] = ['public', 'server', 'common'];
+
+// Where an exported name is declared
+interface ExportLocation {
+  filePath: string;
+  line: number; // 1-based
+  isTypeOnly: boolean;
+}
+
+// A public API export before consumers are known
+export type PublicApiDeclaration = Omit<PublicApiExport, 'consumers'>;
+
+const INDEX_FILES = ['index.ts', 'index.tsx', 'index.js'];
+const MODULE_SUFFIXES = ['', '.ts', '.tsx', '.js', ...INDEX_FILES.map((file) => `/${file}`)];
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// './lib' -> lib.ts, lib.tsx, lib/index.ts, ...
+function resolveRelativeModule(fromFile: string, specifier: string): string | undefined {
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  return MODULE_SUFFIXES.map((suffix) => base + suffix).find(isFile);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some((modifier) => modifier.kind === kind);
+}
+
+// Names a top-level statement declares, e.g. both names of `const a = 1, b = 2`
+function getDeclaredNames(statement: ts.Statement): ts.Identifier[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .map((declaration) => declaration.name)
+      .filter((name): name is ts.Identifier => ts.isIdentifier(name));
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement) ||
+      ts.isModuleDeclaration(statement)) &&
+    statement.name &&
+    ts.isIdentifier(statement.name)
+  ) {
+    return [statement.name];
+  }
+  return [];
+}
+
+/**
+ * Everything a file exports, following relative re-exports (`export * from './lib'`,
+ * `export { a } from './a'`, `import { a } from './a'; export { a }`) to where each name is declared.
+ * Re-exports of other packages are skipped - they are part of that package's API.
+ * `cache` holds the exports of files already visited, which also breaks re-export cycles.
+ */
+function collectFileExports(filePath: string, cache: Map<string, Map<string, ExportLocation>>): Map<string, ExportLocation> {
+  const cached = cache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+  const exports = new Map<string, ExportLocation>();
+  cache.set(filePath, exports);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return exports;
+  }
+
+  const sourceFile = createSourceFile(filePath, content);
+  const getLocation = (node: ts.Node, isTypeOnly: boolean): ExportLocation => ({
+    filePath,
+    line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+    isTypeOnly,
+  });
+  const getModuleExports = (moduleSpecifier: ts.Expression | undefined) => {
+    if (!moduleSpecifier || !ts.isStringLiteralLike(moduleSpecifier) || !moduleSpecifier.text.startsWith('.')) {
+      return undefined;
+    }
+    const target = resolveRelativeModule(filePath, moduleSpecifier.text);
+    return target ? collectFileExports(target, cache) : undefined;
+  };
+
+  // Local bindings that `export { a }` may refer to: declarations and relative imports
+  const locals = new Map<string, ExportLocation>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      const bindings = statement.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        const moduleExports = getModuleExports(statement.moduleSpecifier);
+        for (const element of bindings.elements) {
+          const location = moduleExports?.get((element.propertyName ?? element.name).text);
+          if (location) {
+            locals.set(element.name.text, location);
+          }
+        }
+      }
+      continue;
+    }
+    const isTypeOnly = ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement);
+    for (const name of getDeclaredNames(statement)) {
+      if (!locals.has(name.text)) {
+        locals.set(name.text, getLocation(name, isTypeOnly));
+      }
+    }
+  }
+
+  const add = (name: string, location: ExportLocation) => {
+    if (!exports.has(name)) {
+      exports.set(name, location);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      const moduleExports = getModuleExports(statement.moduleSpecifier);
+      const clause = statement.exportClause;
+
+      // export * from './lib' - default exports are not re-exported
+      if (!clause) {
+        for (const [name, location] of moduleExports || []) {
+          if (name !== 'default') {
+            add(name, { ...location, isTypeOnly: location.isTypeOnly || statement.isTypeOnly });
+          }
+        }
+        continue;
+      }
+
+      if (ts.isNamespaceExport(clause)) {
+        add(clause.name.text, getLocation(clause, statement.isTypeOnly));
+        continue;
+      }
+
+      for (const element of clause.elements) {
+        const localName = (element.propertyName ?? element.name).text;
+        const isTypeOnly = statement.isTypeOnly || element.isTypeOnly;
+        const location = statement.moduleSpecifier ? moduleExports?.get(localName) : locals.get(localName);
+        add(
+          element.name.text,
+          location ? { ...location, isTypeOnly: location.isTypeOnly || isTypeOnly } : getLocation(element, isTypeOnly)
+        );
+      }
+      continue;
+    }
+
+    // export default foo / export = foo
+    if (ts.isExportAssignment(statement)) {
+      add('default', getLocation(statement, false));
+      continue;
+    }
+
+    if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      continue;
+    }
+    const isTypeOnly = ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement);
+    if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+      add('default', getLocation(statement, isTypeOnly));
+      continue;
+    }
+    for (const name of getDeclaredNames(statement)) {
+      add(name.text, getLocation(name, isTypeOnly));
+    }
+  }
+
+  return exports;
+}
+
+/**
+ * The public API of a plugin: the exports of its `public`, `server` and `common` index files.
+ */
+export function collectPublicApi(pluginDir: string): PublicApiDeclaration[] {
+  const cache = new Map<string, Map<string, ExportLocation>>();
+  const declarations: PublicApiDeclaration[] = [];
+
+  for (const entry of PUBLIC_API_ENTRIES) {
+    const indexFile = INDEX_FILES.map((file) => path.join(pluginDir, entry, file)).find(isFile);
+    if (!indexFile) {
+      continue;
+    }
+    for (const [name, location] of collectFileExports(indexFile, cache)) {
+      declarations.push({ name, entry, ...location });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Which public API entry an import path targets, e.g. '@kbn/foo-plugin/server' -> 'server'.
+ * Deep imports ('@kbn/foo-plugin/public/lib') and the bare package name aren't part of the public API.
+ */
+export function getPublicApiEntry(sourcePath: string, packageId: string): PublicApiEntry | undefined {
+  const subpath = sourcePath.toLowerCase().slice(packageId.length + 1);
+  return PUBLIC_API_ENTRIES.find((entry) => entry === subpath);
+}
+
+/**
+ * Attribute every import of a plugin found in other plugins to the public API export it uses.
+ */
+export function summarizePublicApiUsage(
+  pluginId: string,
+  packageId: string,
+  declarations: PublicApiDeclaration[],
+  importsByPlugin: Map<string, ImportOccurrence[]>,
+  scannedPlugins: number
+): PublicApiReport {
+  const counts = new Map(declarations.map((declaration) => [`${declaration.entry}#${declaration.name}`, new Map<string, number>()]));
+  const wholeModule = new Map<PublicApiEntry, Set<string>>();
+
+  for (const [consumerId, occurrences] of importsByPlugin) {
+    for (const occurrence of occurrences) {
+      const entry = getPublicApiEntry(occurrence.sourcePath, packageId);
+      if (!entry) {
+        continue;
+      }
+      if (occurrence.name === '*') {
+        const consumers = wholeModule.get(entry) || new Set<string>();
+        consumers.add(consumerId);
+        wholeModule.set(entry, consumers);
+        continue;
+      }
+      const consumers = counts.get(`${entry}#${occurrence.name}`);
+      consumers?.set(consumerId, (consumers.get(consumerId) || 0) + 1);
+    }
+  }
+
+  return {
+    pluginId,
+    exports: declarations.map((declaration) => ({
+      ...declaration,
+      consumers: [...counts.get(`${declaration.entry}#${declaration.name}`)!]
+        .map(([consumerId, importCount]) => ({ pluginId: consumerId, importCount }))
+        .sort((a, b) => b.importCount - a.importCount || a.pluginId.localeCompare(b.pluginId)),
+    })),
+    wholeModuleConsumers: PUBLIC_API_ENTRIES.filter((entry) => wholeModule.has(entry)).map((entry) => ({
+      entry,
+      pluginIds: [...wholeModule.get(entry)!].sort(),
+    })),
+    scannedPlugins,
+  };
+}
@@ -1,18 +1,55 @@
 import * as vscode from 'vscode';
-import { FileNode, NavigationEdge, GraphState, GroupNode, SymbolInfo } from './types';
+import { FileNode, NavigationEdge, GraphState, GroupNode, SymbolInfo, JourneySession, JourneyStep, CompleteLayoutCache, MAX_JOURNEY_STEPS } from './types';
 
+// The default session keeps using the original single-state key, so graphs saved
+// before sessions existed show up as the "Default" session without any migration.
 const STATE_KEY = 'pathfinder.graphState';
+const SESSIONS_KEY = 'pathfinder.sessions';
+// The Complete mode layout only depends on the plugins, so it is shared by all sessions
+const COMPLETE_LAYOUT_KEY = 'pathfinder.completeLayout';
+const DEFAULT_SESSION_ID = 'default';
+
+interface SessionIndex {
+  activeSessionId: string;
+  sessions: JourneySession[];
+}
 
 export class StateManager {
   private _state: GraphState;
+  private _index: SessionIndex;
+
+  private readonly _onDidSwitchSession = new vscode.EventEmitter<JourneySession>();
+  /** Fires after the active session changed and its state has been loaded */
+  public readonly onDidSwitchSession = this._onDidSwitchSession.event;
 
   constructor(private readonly _context: vscode.ExtensionContext) {
-    // Load state from workspace storage
-    this._state = this._loadState();
+    this._index = this._loadIndex();
+    // Load the active session's state from workspace storage
+    this._state = this._loadState(this._index.activeSessionId);
+  }
+
+  private _loadIndex(): SessionIndex {
+    const savedIndex = this._context.workspaceState.get<SessionIndex>(SESSIONS_KEY);
+    if (savedIndex && savedIndex.sessions.length > 0) {
+      const activeExists = savedIndex.sessions.some((s) => s.id === savedIndex.activeSessionId);
+      return {
+        sessions: savedIndex.sessions,
+        activeSessionId: activeExists ? savedIndex.activeSessionId : savedIndex.sessions[0].id,
+      };
+    }
+    const now = Date.now();
+    return {
+      activeSessionId: DEFAULT_SESSION_ID,
+      sessions: [{ id: DEFAULT_SESSION_ID, name: 'Default', createdAt: now, updatedAt: now }],
+    };
+  }
+
+  private _getStateKey(sessionId: string): string {
+    return sessionId === DEFAULT_SESSION_ID ? STATE_KEY : `${STATE_KEY}.${sessionId}`;
   }
 
-  private _loadState(): GraphState {
-    const savedState = this._context.workspaceState.get<GraphState>(STATE_KEY);
+  private _loadState(sessionId: string): GraphState {
+    const savedState = this._context.workspaceState.get<GraphState>(this._getStateKey(sessionId));
     if (savedState) {
       // Ensure groups array exists for backwards compatibility
       return { ...savedState, groups: savedState.groups || [] };
@@ -21,7 +58,110 @@ export class StateManager {
   }
 
   private _persistState() {
-    this._context.workspaceState.update(STATE_KEY, this._state);
+    const activeSession = this.getActiveSession();
+    activeSession.updatedAt = Date.now();
+    this._context.workspaceState.update(this._getStateKey(activeSession.id), this._state);
+    this._persistIndex();
+  }
+
+  private _persistIndex() {
+    this._context.workspaceState.update(SESSIONS_KEY, this._index);
+  }
+
+  public getSessions(): JourneySession[] {
+    return this._index.sessions.map((s) => ({ ...s }));
+  }
+
+  public getActiveSession(): JourneySession {
+    return this._index.sessions.find((s) => s.id === this._index.activeSessionId)!;
+  }
+
+  /**
+   * Create a new empty session and make it the active one.
+   */
+  public createSession(name: string): JourneySession {
+    return this._addSession(name, { nodes: [], edges: [], groups: [] });
+  }
+
+  /**
+   * Copy a session's graph into a new session and make the copy active.
+   */
+  public duplicateSession(sessionId: string, name: string): JourneySession | undefined {
+    const source = this._index.sessions.find((s) => s.id === sessionId);
+    if (!source) {
+      return undefined;
+    }
+    const sourceState = sessionId === this._index.activeSessionId ? this._state : this._loadState(sessionId);
+    // Deep copy so the two sessions never share node/edge objects
+    return this._addSession(name, JSON.parse(JSON.stringify(sourceState)));
+  }
+
+  public renameSession(sessionId: string, name: string): boolean {
+    const session = this._index.sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      return false;
+    }
+    session.name = name;
+    session.updatedAt = Date.now();
+    this._persistIndex();
+    return true;
+  }
+
+  public switchSession(sessionId: string): boolean {
+    if (sessionId === this._index.activeSessionId) {
+      return true;
+    }
+    const session = this._index.sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      return false;
+    }
+    this._index.activeSessionId = sessionId;
+    this._state = this._loadState(sessionId);
+    this._persistIndex();
+    this._onDidSwitchSession.fire({ ...session });
+    return true;
+  }
+
+  /**
+   * Delete a session and its stored graph. The last remaining session cannot be deleted.
+   * If the active session is deleted, the most recently updated remaining session becomes active.
+   */
+  public deleteSession(sessionId: string): boolean {
+    if (this._index.sessions.length <= 1) {
+      return false;
+    }
+    const session = this._index.sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this._index.sessions = this._index.sessions.filter((s) => s.id !== sessionId);
+    this._context.workspaceState.update(this._getStateKey(sessionId), undefined);
+
+    if (this._index.activeSessionId === sessionId) {
+      const next = [...this._index.sessions].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+      this._index.activeSessionId = next.id;
+      this._state = this._loadState(next.id);
+      this._persistIndex();
+      this._onDidSwitchSession.fire({ ...next });
+    } else {
+      this._persistIndex();
+    }
+    return true;
+  }
+
+  private _addSession(name: string, state: GraphState): JourneySession {
+    const now = Date.now();
+    const session: JourneySession = {
+      id: `session-${now.toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this._index.sessions.push(session);
+    this._context.workspaceState.update(this._getStateKey(session.id), state);
+    this.switchSession(session.id);
+    return { ...session };
   }
 
   public getState(): GraphState {
@@ -29,10 +169,19 @@ export class StateManager {
   }
 
   public saveState(state: GraphState) {
-    this._state = state;
+    // The webview doesn't send the journey log back, so keep the recorded one
+    this._state = { ...state, journey: state.journey ?? this._state.journey };
     this._persistState();
   }
 
+  public getCompleteLayoutCache(): CompleteLayoutCache | null {
+    return this._context.workspaceState.get<CompleteLayoutCache>(COMPLETE_LAYOUT_KEY) ?? null;
+  }
+
+  public saveCompleteLayoutCache(cache: CompleteLayoutCache) {
+    this._context.workspaceState.update(COMPLETE_LAYOUT_KEY, cache);
+  }
+
   public addNode(node: FileNode) {
     // Check if node already exists
     const exists = this._state.nodes.some((n) => n.id === node.id);
@@ -51,6 +200,67 @@ export class StateManager {
     }
   }
 
+  public getJourney(): JourneyStep[] {
+    return [...(this._state.journey || [])];
+  }
+
+  /**
+   * Append a navigation step to the journey log and count it on the edge between the two files.
+   * Edges are directed, so going back to a previous file records a separate edge.
+   * The log keeps the last MAX_JOURNEY_STEPS steps; edge counts keep counting past that.
+   */
+  public recordJourneyStep(step: JourneyStep): { edge: NavigationEdge; isNew: boolean } {
+    if (!this._state.journey) {
+      this._state.journey = [];
+    }
+    this._state.journey.push(step);
+    if (this._state.journey.length > MAX_JOURNEY_STEPS) {
+      this._state.journey.splice(0, this._state.journey.length - MAX_JOURNEY_STEPS);
+    }
+
+    const edgeId = `${step.source}-${step.target}`;
+    let edge = this._state.edges.find((e) => e.id === edgeId);
+    const isNew = !edge;
+    if (edge) {
+      edge.visitCount = (edge.visitCount ?? 1) + 1;
+      edge.firstTraversedAt = edge.firstTraversedAt ?? step.timestamp;
+      edge.lastTraversedAt = step.timestamp;
+    } else {
+      edge = {
+        id: edgeId,
+        source: step.source,
+        target: step.target,
+        visitCount: 1,
+        firstTraversedAt: step.timestamp,
+        lastTraversedAt: step.timestamp,
+      };
+      this._state.edges.push(edge);
+    }
+
+    this._persistState();
+    return { edge: { ...edge }, isNew };
+  }
+
+  /**
+   * Record a call between two files on the call edge between their nodes.
+   * Each 'caller → callee' pair is listed once, however often it's expanded.
+   */
+  public recordCall(source: string, target: string, call: string): { edge: NavigationEdge; isNew: boolean } {
+    const edgeId = `call-${source}-${target}`;
+    let edge = this._state.edges.find((e) => e.id === edgeId);
+    const isNew = !edge;
+    if (!edge) {
+      edge = { id: edgeId, source, target, edgeType: 'call', calls: [] };
+      this._state.edges.push(edge);
+    }
+    if (!edge.calls?.includes(call)) {
+      edge.calls = [...(edge.calls || []), call];
+    }
+
+    this._persistState();
+    return { edge: { ...edge }, isNew };
+  }
+
   public deleteNode(nodeId: string) {
     // Remove the node
     this._state.nodes = this._state.nodes.filter((n) => n.id !== nodeId);
@@ -126,10 +336,81 @@ export class StateManager {
     return this._state.nodes.filter((n) => n.groupId === groupId);
   }
 
+  /**
+   * Load an imported graph into the active session.
+   * 'replace' discards the current graph; 'merge' keeps existing nodes, edges and groups
+   * and adds the imported ones that don't exist yet (symbols are unioned for shared nodes).
+   */
+  public importState(imported: GraphState, mode: 'merge' | 'replace') {
+    if (mode === 'replace') {
+      this._state = { ...imported, viewMode: this._state.viewMode, layouts: this._state.layouts, pins: this._state.pins };
+      this._persistState();
+      return;
+    }
+
+    const mergeSymbols = (existing: SymbolInfo[] | undefined, incoming: SymbolInfo[] | undefined) => {
+      const merged = [...(existing || [])];
+      for (const symbol of incoming || []) {
+        if (!merged.some((s) => s.name === symbol.name && s.line === symbol.line)) {
+          merged.push(symbol);
+        }
+      }
+      return merged.length > 0 ? merged : undefined;
+    };
+
+    for (const node of imported.nodes) {
+      const existing = this._state.nodes.find((n) => n.id === node.id);
+      if (existing) {
+        existing.symbols = mergeSymbols(existing.symbols, node.symbols);
+        existing.sourceSymbols = mergeSymbols(existing.sourceSymbols, node.sourceSymbols);
+      } else {
+        this._state.nodes.push(node);
+      }
+    }
+    for (const edge of imported.edges) {
+      const existing = this._state.edges.find((e) => e.id === edge.id);
+      if (!existing) {
+        this._state.edges.push(edge);
+      } else if (edge.visitCount !== undefined) {
+        // Importing the same export twice must not inflate the counts, so keep the larger one
+        existing.visitCount = Math.max(existing.visitCount ?? 1, edge.visitCount);
+        if (edge.firstTraversedAt !== undefined) {
+          existing.firstTraversedAt = Math.min(existing.firstTraversedAt ?? edge.firstTraversedAt, edge.firstTraversedAt);
+        }
+        if (edge.lastTraversedAt !== undefined) {
+          existing.lastTraversedAt = Math.max(existing.lastTraversedAt ?? edge.lastTraversedAt, edge.lastTraversedAt);
+        }
+      }
+    }
+    if (imported.journey && imported.journey.length > 0) {
+      const knownStepIds = new Set((this._state.journey || []).map((step) => step.id));
+      this._state.journey = [
+        ...(this._state.journey || []),
+        ...imported.journey.filter((step) => !knownStepIds.has(step.id)),
+      ]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(-MAX_JOURNEY_STEPS);
+    }
+    for (const group of imported.groups) {
+      const existing = this._state.groups.find((g) => g.id === group.id);
+      if (!existing) {
+        this._state.groups.push(group);
+      } else if (existing.type === 'dependency' && group.type === 'plugin') {
+        // The imported graph has files in a plugin we only know as a dependency
+        this._state.groups[this._state.groups.indexOf(existing)] = { ...group, position: existing.position };
+      }
+    }
+    this._persistState();
+  }
+
   public clearState() {
     this._state = { nodes: [], edges: [], groups: [] };
     this._persistState();
   }
+
+  public dispose() {
+    this._onDidSwitchSession.dispose();
+  }
 }
 
 
@@ -3,6 +3,9 @@ import { PathfinderViewProvider } from './PathfinderViewProvider';
 import { NavigationTracker } from './NavigationTracker';
 import { StateManager } from './StateManager';
 import { pluginCache } from './PluginCache';
+import { GraphTransfer } from './GraphTransfer';
+import { CycleReporter } from './CycleReporter';
+import { DependencyAuditor } from './DependencyAuditor';
 
 let navigationTracker: NavigationTracker | undefined;
 
@@ -10,12 +13,18 @@ export async function activate(context: vscode.ExtensionContext) {
   console.log('Kibana Pathfinder is now active');
 
   // Initialize plugin cache (async, but don't block activation)
+  // A saved index from the previous session makes this near-instant; stale entries are re-read in the background
+  pluginCache.setStorageUri(context.storageUri);
   pluginCache.initialize().then(() => {
     console.log('[Pathfinder] Plugin cache initialized');
   });
 
+  // Keep the plugin cache in sync with kibana.jsonc changes (new plugins, branch switches)
+  context.subscriptions.push(pluginCache.watch());
+
   // Initialize state manager
   const stateManager = new StateManager(context);
+  context.subscriptions.push(stateManager);
 
   // Create the webview provider
   const provider = new PathfinderViewProvider(context.extensionUri, stateManager);
@@ -40,6 +49,20 @@ export async function activate(context: vscode.ExtensionContext) {
   // Connect view provider to navigation tracker for mode change handling
   provider.setNavigationTracker(navigationTracker);
 
+  // Reload the webview whenever the active journey session changes
+  context.subscriptions.push(
+    stateManager.onDidSwitchSession(() => {
+      provider.reloadState();
+    })
+  );
+
+  // Push the updated plugin list to Complete and 3D mode when manifests change
+  context.subscriptions.push(
+    pluginCache.onDidChange(() => {
+      provider.refreshAllPlugins();
+    })
+  );
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('pathfinder.openPanel', () => {
@@ -54,6 +77,37 @@ export async function activate(context: vscode.ExtensionContext) {
       stateManager.clearState();
     })
   );
+
+  const graphTransfer = new GraphTransfer(stateManager, provider, navigationTracker);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pathfinder.exportGraph', () => graphTransfer.exportGraph())
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pathfinder.importGraph', () => graphTransfer.importGraph())
+  );
+
+  const cycleReporter = new CycleReporter();
+  context.subscriptions.push(cycleReporter);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pathfinder.reportCycles', () => cycleReporter.reportCycles())
+  );
+
+  const dependencyAuditor = new DependencyAuditor();
+  context.subscriptions.push(dependencyAuditor);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('pathfinder.auditDependencies', () => dependencyAuditor.auditDependencies())
+  );
+
+  // Plugin mode draws undeclared and never imported dependencies as edges
+  context.subscriptions.push(
+    dependencyAuditor.onDidChangeFindings((findings) => {
+      provider.setDependencyAudit(findings);
+    })
+  );
 }
 
 export function deactivate() {
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseImports } from './ImportAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+
+/**
+ * The workspace files a file imports directly. Third-party packages and imports that can't be
+ * resolved are left out, as are jest.mock() calls.
+ */
+export async function findImportedFiles(filePath: string, resolver: ModuleResolver): Promise<string[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const imported = new Set<string>();
+  for (const parsed of parseImports(filePath, content)) {
+    if (parsed.kind === 'jest-mock') {
+      continue;
+    }
+    const target = resolver.resolve(parsed.moduleSpecifier, filePath);
+    if (target && target !== filePath) {
+      imported.add(target);
+    }
+  }
+  return [...imported].sort();
+}
+
+/**
+ * The last path segment an import of the file can end with: 'utils' for utils.ts,
+ * 'public' for public/index.ts.
+ */
+function getImportNames(filePath: string): Set<string> {
+  const baseName = path.basename(filePath).replace(/(\.d)?\.[jt]sx?$/, '');
+  const names = new Set([baseName]);
+  if (baseName === 'index') {
+    names.add(path.basename(path.dirname(filePath)));
+  }
+  return names;
+}
+
+/**
+ * Of the candidate files, the ones that import the file directly. Candidates are pre-filtered on
+ * the file's name so only imports that could point at it are resolved.
+ * Returns undefined if cancelled.
+ */
+export async function findImportingFiles(
+  filePath: string,
+  candidates: string[],
+  resolver: ModuleResolver,
+  isCancelled: () => boolean
+): Promise<string[] | undefined> {
+  const names = getImportNames(filePath);
+  // '@kbn/data-plugin' resolves to an index file without naming it
+  const isIndex = names.has('index');
+  const importers: string[] = [];
+
+  for (const candidate of candidates) {
+    if (isCancelled()) {
+      return undefined;
+    }
+    if (candidate === filePath) {
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(candidate, 'utf-8');
+    } catch {
+      continue;
+    }
+    if (![...names].some((name) => content.includes(name)) && !(isIndex && content.includes('@kbn/'))) {
+      continue;
+    }
+
+    const importsFile = parseImports(candidate, content).some((parsed) => {
+      if (parsed.kind === 'jest-mock') {
+        return false;
+      }
+      const lastSegment = parsed.moduleSpecifier.split('/').pop()!.replace(/\.[jt]sx?$/, '');
+      const isBarePackage = isIndex && /^@[^/]+\/[^/]+$/.test(parsed.moduleSpecifier);
+      return (names.has(lastSegment) || isBarePackage) && resolver.resolve(parsed.moduleSpecifier, candidate) === filePath;
+    });
+    if (importsFile) {
+      importers.push(candidate);
+    }
+  }
+  return importers.sort();
+}
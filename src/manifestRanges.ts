@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+function toRange(text: string, offset: number, length: number): vscode.Range {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  const character = offset - (before.lastIndexOf('\n') + 1);
+  return new vscode.Range(line, character, line, character + length);
+}
+
+/**
+ * Range of a dependency list in a kibana.jsonc manifest, or of one entry in it
+ * (e.g. "data" in requiredPlugins). Falls back to the first line.
+ */
+export function findManifestRange(manifestPath: string, field: string, entry?: string): vscode.Range {
+  try {
+    const text = fs.readFileSync(manifestPath, 'utf-8');
+    const listStart = text.indexOf(`"${field}"`);
+    if (listStart === -1) {
+      return new vscode.Range(0, 0, 0, 0);
+    }
+    if (entry !== undefined) {
+      // Only look inside this field's [...], so the same ID in another list isn't matched
+      const arrayStart = text.indexOf('[', listStart);
+      const arrayEnd = arrayStart === -1 ? -1 : text.indexOf(']', arrayStart);
+      const entryStart = arrayEnd === -1 ? -1 : text.indexOf(`"${entry}"`, arrayStart);
+      if (entryStart !== -1 && entryStart < arrayEnd) {
+        return toRange(text, entryStart, entry.length + 2);
+      }
+    }
+    return toRange(text, listStart, field.length + 2);
+  } catch {
+    // Fall through to the first line
+  }
+  return new vscode.Range(0, 0, 0, 0);
+}
@@ -0,0 +1,149 @@
+import { DependencyKind } from './types';
+import { PluginDependencyLists, getPluginDependencies } from './pluginDependencies';
+
+// A dependency between two plugins of the same cycle, pointing from the plugin to what it depends on
+export interface CycleEdge {
+  source: string; // runtime ID of the plugin declaring the dependency
+  target: string; // runtime ID of the dependency
+  kind: DependencyKind;
+}
+
+/**
+ * A strongly connected component of the plugin dependency graph - every plugin in it
+ * (directly or indirectly) depends on every other one.
+ */
+export interface DependencyCycle {
+  id: string; // Stable key: the sorted plugin IDs
+  pluginIds: string[];
+  edges: CycleEdge[]; // All dependencies between plugins of the component
+  path: string[]; // One concrete loop through the component, first plugin repeated at the end
+}
+
+type CyclePlugin = PluginDependencyLists & { runtimeId: string };
+
+/**
+ * Find all dependency cycles using Tarjan's strongly connected components algorithm.
+ * Every dependency kind counts - an optional dependency still forms a cycle at build time.
+ * Cycles are sorted largest first.
+ */
+export function findDependencyCycles(plugins: CyclePlugin[]): DependencyCycle[] {
+  const adjacency = new Map<string, CycleEdge[]>();
+  for (const plugin of plugins) {
+    adjacency.set(plugin.runtimeId, []);
+  }
+  for (const plugin of plugins) {
+    for (const { pluginId, kind } of getPluginDependencies(plugin)) {
+      // Dependencies on plugins that aren't in the workspace can't be part of a cycle
+      if (adjacency.has(pluginId)) {
+        adjacency.get(plugin.runtimeId)!.push({ source: plugin.runtimeId, target: pluginId, kind });
+      }
+    }
+  }
+
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  // Iterative to stay within the call stack on large plugin graphs
+  for (const root of adjacency.keys()) {
+    if (indexes.has(root)) {
+      continue;
+    }
+    const work: { node: string; edgeIndex: number }[] = [{ node: root, edgeIndex: 0 }];
+    indexes.set(root, nextIndex);
+    lowLinks.set(root, nextIndex);
+    nextIndex++;
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const edges = adjacency.get(frame.node)!;
+
+      if (frame.edgeIndex < edges.length) {
+        const next = edges[frame.edgeIndex++].target;
+        if (!indexes.has(next)) {
+          indexes.set(next, nextIndex);
+          lowLinks.set(next, nextIndex);
+          nextIndex++;
+          stack.push(next);
+          onStack.add(next);
+          work.push({ node: next, edgeIndex: 0 });
+        } else if (onStack.has(next)) {
+          lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indexes.get(next)!));
+        }
+        continue;
+      }
+
+      // All edges visited - close the component if this node is its root
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+      }
+      if (lowLinks.get(frame.node) === indexes.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  const cycles: DependencyCycle[] = [];
+  for (const component of components) {
+    const members = new Set(component);
+    const edges = component.flatMap((id) => adjacency.get(id)!.filter((edge) => members.has(edge.target)));
+    // A single plugin is only a cycle if it depends on itself
+    if (edges.length === 0) {
+      continue;
+    }
+    const pluginIds = [...component].sort();
+    cycles.push({
+      id: pluginIds.join(','),
+      pluginIds,
+      edges,
+      path: findLoop(pluginIds[0], edges),
+    });
+  }
+
+  return cycles.sort((a, b) => b.pluginIds.length - a.pluginIds.length || a.id.localeCompare(b.id));
+}
+
+/**
+ * Shortest loop from a plugin back to itself using only the given edges (breadth-first).
+ */
+function findLoop(start: string, edges: CycleEdge[]): string[] {
+  const previous = new Map<string, string>();
+  const queue: string[] = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.source !== current) {
+        continue;
+      }
+      if (edge.target === start) {
+        const loop = [start];
+        for (let node: string | undefined = current; node && node !== start; node = previous.get(node)) {
+          loop.unshift(node);
+        }
+        loop.unshift(start);
+        return loop;
+      }
+      if (!previous.has(edge.target)) {
+        previous.set(edge.target, current);
+        queue.push(edge.target);
+      }
+    }
+  }
+
+  return [start];
+}
@@ -0,0 +1,45 @@
+import { DependencyKind } from './types';
+
+// The dependency lists a kibana.jsonc manifest can declare
+export interface PluginDependencyLists {
+  requiredPlugins?: string[];
+  optionalPlugins?: string[];
+  requiredBundles?: string[];
+  runtimePluginDependencies?: string[];
+}
+
+// Strongest first - a plugin listed under several kinds is shown with the strongest one
+export const DEPENDENCY_KINDS: DependencyKind[] = ['required', 'runtime', 'optional', 'bundle'];
+
+export const DEPENDENCY_KIND_FIELDS: Record<DependencyKind, keyof PluginDependencyLists> = {
+  required: 'requiredPlugins',
+  runtime: 'runtimePluginDependencies',
+  optional: 'optionalPlugins',
+  bundle: 'requiredBundles',
+};
+
+/**
+ * All dependencies of a plugin with the kind each one is declared as.
+ * Every dependency appears once, so there is at most one edge per plugin pair.
+ */
+export function getPluginDependencies(
+  lists: PluginDependencyLists
+): { pluginId: string; kind: DependencyKind }[] {
+  const seen = new Set<string>();
+  const dependencies: { pluginId: string; kind: DependencyKind }[] = [];
+
+  for (const kind of DEPENDENCY_KINDS) {
+    for (const pluginId of lists[DEPENDENCY_KIND_FIELDS[kind]] || []) {
+      if (!seen.has(pluginId)) {
+        seen.add(pluginId);
+        dependencies.push({ pluginId, kind });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+export function getDependencyIds(lists: PluginDependencyLists): string[] {
+  return getPluginDependencies(lists).map((dependency) => dependency.pluginId);
+}
@@ -2,6 +2,28 @@
 
 export type ViewMode = 'journey' | 'plugin' | 'complete' | '3d';
 
+// How Plugin and Complete mode arrange plugin groups. 'manual' keeps the positions groups were placed or dragged to
+export type GraphLayout = 'manual' | 'force' | 'layered' | 'radial';
+
+// Group positions the user pinned, by group ID. Layouts and collision resolution leave pinned groups in place
+export type PinnedPositions = Record<string, { x: number; y: number }>;
+
+// Text formats the visible graph can be exported to
+export type DiagramFormat = 'mermaid' | 'dot';
+
+// How a plugin depends on another one, as declared in its kibana.jsonc
+export type DependencyKind = 'required' | 'optional' | 'bundle' | 'runtime';
+
+// Descriptive fields from a kibana.jsonc manifest
+export interface PluginMetadata {
+  owner: string[]; // GitHub teams like "@elastic/kibana-core"
+  type?: string; // 'plugin', 'shared-common', 'shared-browser', 'shared-server', 'test-helper', ...
+  group?: string; // Solution area: 'platform', 'observability', 'security', 'search', ...
+  visibility?: string; // 'private' or 'shared'
+  browser?: boolean; // plugin.browser - has a public (browser) side
+  server?: boolean; // plugin.server - has a server side
+}
+
 // Symbol information with location for code preview
 export interface SymbolInfo {
   name: string;
@@ -30,7 +52,11 @@ export interface GroupNode {
   width: number;
   height: number;
   requiredPlugins?: string[]; // For plugin groups, tracks their dependencies
+  optionalPlugins?: string[];
+  requiredBundles?: string[]; // Plugins whose public code is imported without a runtime dependency
+  runtimePluginDependencies?: string[];
   pluginPath?: string; // Path to the plugin directory (e.g., "x-pack/platform/plugins/shared/streams")
+  metadata?: PluginMetadata;
 }
 
 export interface NavigationEdge {
@@ -39,14 +65,64 @@ export interface NavigationEdge {
   target: string;
   sourceHandle?: string;
   targetHandle?: string;
-  edgeType?: 'navigation' | 'dependency'; // 'navigation' for file-to-file, 'dependency' for group-to-group
+  edgeType?: 'navigation' | 'dependency' | 'import' | 'call'; // 'navigation' for file-to-file, 'dependency' for group-to-group, 'import' for the static import overlay, 'call' from the call hierarchy
+  dependencyKind?: DependencyKind; // Dependency edges only (missing means 'required')
+  visitCount?: number; // Navigation edges: how often this transition was made (missing means 1)
+  firstTraversedAt?: number; // Epoch ms
+  lastTraversedAt?: number; // Epoch ms
+  calls?: string[]; // Call edges: 'caller → callee' for each call between the two files
+}
+
+// A static import between two files on the graph
+export interface FileImport {
+  source: string; // Path of the importing file
+  target: string; // Path of the imported file
+  isTypeOnly: boolean;
 }
 
+// Which neighbors of a file node to add to the graph
+export type FileExpandDirection = 'imports' | 'importers';
+
+// Callers ('incoming') or callees ('outgoing') of a symbol
+export type CallHierarchyDirection = 'incoming' | 'outgoing';
+
+// A single file-to-file transition, recorded in the order it happened
+export interface JourneyStep {
+  id: string;
+  source: string; // Node ID of the file navigated from
+  target: string; // Node ID of the file navigated to
+  sourcePath: string; // File paths are kept so steps stay readable after their nodes are removed
+  targetPath: string;
+  timestamp: number; // Epoch ms
+  symbol?: SymbolInfo; // Symbol that was followed to reach the target (cmd+click)
+  containingSymbol?: SymbolInfo; // Function/class/type in the source that contained the reference
+}
+
+// The journey log is persisted on every navigation, so only the most recent steps are kept
+export const MAX_JOURNEY_STEPS = 2000;
+
 export interface GraphState {
   nodes: FileNode[];
   edges: NavigationEdge[];
   groups: GroupNode[];
   viewMode?: ViewMode;
+  layouts?: { plugin?: GraphLayout; complete?: GraphLayout }; // Layout chosen per view mode
+  pins?: { plugin?: PinnedPositions; complete?: PinnedPositions }; // Pinned groups per view mode
+  journey?: JourneyStep[]; // Ordered log of every navigation step, owned by the extension
+}
+
+// Final force layout of the Complete mode plugin graph, kept in workspace storage across sessions
+export interface CompleteLayoutCache {
+  key: string; // Hash of the plugin graph the layout was calculated for
+  positions: Record<string, { x: number; y: number }>; // By group ID
+}
+
+// Named journey session - each session owns its own GraphState in workspace storage
+export interface JourneySession {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch ms
+  updatedAt: number; // Epoch ms, bumped whenever the session's graph is persisted
 }
 
 // Plugin info for complete mode
@@ -54,16 +130,24 @@ export interface PluginInfoForWebview {
   runtimeId: string;
   packageId: string;
   requiredPlugins: string[];
+  optionalPlugins: string[];
+  requiredBundles: string[];
+  runtimePluginDependencies: string[];
+  metadata: PluginMetadata;
+  directory: string; // Relative to the workspace root, with forward slashes
 }
 
 // Messages from Extension to Webview
 export type ExtensionToWebviewMessage =
   | { type: 'addNode'; node: FileNode }
   | { type: 'addEdge'; edge: NavigationEdge }
+  | { type: 'updateEdge'; edge: NavigationEdge } // Visit count / timestamps changed
+  | { type: 'addJourneyStep'; step: JourneyStep }
   | { type: 'addGroup'; group: GroupNode }
   | { type: 'updateGroup'; group: GroupNode }
   | { type: 'removeGroup'; groupId: string }
-  | { type: 'loadState'; state: GraphState }
+  | { type: 'loadState'; state: GraphState; session: JourneySession }
+  | { type: 'sessionList'; sessions: JourneySession[]; activeSessionId: string }
   | { type: 'highlightNode'; nodeId: string }
   | { type: 'setActiveNode'; nodeId: string | null }
   | { type: 'removeNode'; nodeId: string }
@@ -71,25 +155,44 @@ export type ExtensionToWebviewMessage =
   | { type: 'addSourceSymbolToNode'; nodeId: string; symbol: SymbolInfo }
   | { type: 'searchResults'; pluginId: string; results: FileSearchResult[] }
   | { type: 'allPlugins'; plugins: PluginInfoForWebview[] }
+  | { type: 'completeLayoutCache'; cache: CompleteLayoutCache | null } // Sent before allPlugins
   | { type: 'codePreview'; requestId: string; lines: string[]; startLine: number; highlightLine: number }
   | { type: 'importAnalysis'; dependencyPluginId: string; imports: ImportedExport[] }
+  | { type: 'dependencyAudit'; findings: DependencyAuditFinding[] }
+  | { type: 'fileImports'; imports: FileImport[] } // Between the requested files only
+  | { type: 'boundaryViolations'; pluginIds: string[]; violations: BoundaryViolation[] } // For the checked plugins
+  | { type: 'publicApiAnalysis'; pluginId: string; report: PublicApiReport | null } // null if it couldn't be analyzed
   | { type: 'tsLoading'; pluginId: string; isLoading: boolean }
   | { type: 'clear' };
 
 // Messages from Webview to Extension
 export type WebviewToExtensionMessage =
-  | { type: 'openFile'; filePath: string }
+  | { type: 'openFile'; filePath: string; line?: number } // line is 1-based
+  | { type: 'openJourneyStep'; filePath: string; line?: number } // Replay: open without taking focus from the player
   | { type: 'closeFile'; filePath: string }
   | { type: 'deleteNode'; nodeId: string }
   | { type: 'clearGraph' }
-  | { type: 'saveState'; state: GraphState }
+  | { type: 'saveState'; state: GraphState; sessionId?: string } // sessionId guards against saving into a session that was switched away from
+  | { type: 'saveCompleteLayout'; cache: CompleteLayoutCache }
   | { type: 'searchFiles'; pluginId: string; query: string }
   | { type: 'openPluginIndex'; pluginId: string }
   | { type: 'openImportSource'; importPath: string; symbolName: string } // Open file where symbol is defined
   | { type: 'loadAllPlugins' }
   | { type: 'requestCodePreview'; requestId: string; filePath: string; line: number; contextLines: number }
   | { type: 'analyzeImports'; mainPluginId: string; dependencyPluginId: string }
+  | { type: 'analyzePublicApi'; pluginId: string } // Which exports of a plugin other plugins import
+  | { type: 'checkBoundaries'; pluginIds: string[] } // Cross-environment imports of these plugins
+  | { type: 'requestFileImports'; filePaths: string[] } // Static imports among these files
+  | { type: 'expandFileNode'; filePath: string; direction: FileExpandDirection } // Add the file's direct imports or importers as nodes
+  | { type: 'expandCallHierarchy'; symbol: SymbolInfo; direction: CallHierarchyDirection } // Add the symbol's callers or callees as nodes
   | { type: 'modeChange'; mode: ViewMode } // Notify extension when view mode changes
+  | { type: 'exportDiagram'; format: DiagramFormat; content: string } // Rendered from the currently visible graph
+  | { type: 'exportImpactReport'; content: string } // Markdown list of a plugin's dependents
+  | { type: 'switchSession'; sessionId: string }
+  | { type: 'createSession' } // Name is prompted for by the extension
+  | { type: 'renameSession'; sessionId: string }
+  | { type: 'duplicateSession'; sessionId: string }
+  | { type: 'deleteSession'; sessionId: string }
   | { type: 'ready' };
 
 // File search result
@@ -99,13 +202,79 @@ export interface FileSearchResult {
   relativePath: string;
 }
 
+// How a module is referenced. Everything but 'import' and 're-export' brings in the whole module ('*')
+export type ImportKind = 'import' | 're-export' | 'side-effect' | 'dynamic' | 'require' | 'jest-mock';
+
+// One place a symbol is imported, and the lines of that file that use it
+export interface ImportUsage {
+  filePath: string; // Absolute path, for opening the file
+  importedIn: string; // Path relative to the importing plugin
+  line: number; // 1-based line of the import statement
+  alias?: string; // Local name if it differs from the export name
+  isTypeOnly: boolean;
+  importKind: ImportKind;
+  referenceLines: number[]; // 1-based lines that reference the imported binding
+}
+
 // Import analysis result
 export interface ImportedExport {
-  name: string; // The export name (or 'default' for default exports)
+  name: string; // The export name ('default' for default exports, '*' for the whole module)
   alias?: string; // The local alias if renamed (e.g., import { foo as bar })
   isDefault: boolean;
-  importedIn: string; // The file in the main plugin that imports this
+  importedIn: string; // The first file in the main plugin that imports this
   sourcePath: string; // The import path (e.g., '@kbn/dashboard-plugin/common')
+  line?: number; // 1-based line of the import in importedIn
+  isTypeOnly?: boolean; // Every import of it is type-only (import type, export type or an inline `type`)
+  importKind?: ImportKind;
+  usages?: ImportUsage[]; // Every file and line importing it
+  usageCount?: number; // References to it across all importing files
+}
+
+// A mismatch between a plugin's kibana.jsonc dependencies and the plugins its code imports
+export interface DependencyAuditFinding {
+  pluginId: string; // Runtime ID of the plugin whose manifest doesn't match
+  dependencyId: string; // Runtime ID of the imported or declared plugin
+  problem: 'undeclared' | 'unused'; // Imported without being declared / declared but never imported
+  declaredAs?: DependencyKind; // For unused dependencies
+  importSites: { filePath: string; line: number }[]; // For undeclared dependencies: the runtime imports
+}
+
+// Where plugin code runs: the browser, the Kibana server, or both
+export type PluginEnvironment = 'public' | 'server' | 'common';
+
+// Entry points that make up a plugin's public API (`<plugin>/public/index.ts` etc.)
+export type PublicApiEntry = PluginEnvironment;
+
+// An import that crosses environments, e.g. public code importing another plugin's server code
+export interface BoundaryViolation {
+  pluginId: string; // Runtime ID of the importing plugin
+  dependencyId: string; // Runtime ID of the imported plugin - the same plugin for relative imports
+  filePath: string;
+  relativePath: string; // Relative to the importing plugin
+  line: number; // 1-based
+  from: PluginEnvironment; // Environment of the importing file
+  to: PluginEnvironment; // Environment of the imported code
+  moduleSpecifier: string;
+  isTypeOnly: boolean; // Erased at build time, but still couples the environments
+}
+
+// One export of a plugin's public API and the plugins that import it
+export interface PublicApiExport {
+  name: string; // 'default' for default exports
+  entry: PublicApiEntry;
+  filePath: string; // Where it is declared, after following re-exports
+  line: number; // 1-based
+  isTypeOnly: boolean; // Interfaces, type aliases and `export type`
+  consumers: { pluginId: string; importCount: number }[]; // Runtime IDs, most imports first
+}
+
+// Result of the reverse import analysis: a plugin's public API and who uses it
+export interface PublicApiReport {
+  pluginId: string; // Runtime ID
+  exports: PublicApiExport[];
+  // Namespace imports, `export *` and other whole-module references - any export may be used through them
+  wholeModuleConsumers: { entry: PublicApiEntry; pluginIds: string[] }[];
+  scannedPlugins: number;
 }
 
 
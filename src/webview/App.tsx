@@ -1,6 +1,7 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { PathfinderGraph } from './components/PathfinderGraph';
 import { PathfinderGraph3D } from './components/PathfinderGraph3D';
+import { SessionPicker } from './components/SessionPicker';
 import {
   FileNode,
   NavigationEdge,
@@ -11,7 +12,25 @@ import {
   ViewMode,
   PluginInfoForWebview,
   ImportedExport,
+  JourneySession,
+  JourneyStep,
+  DiagramFormat,
+  DependencyKind,
+  PublicApiReport,
+  DependencyAuditFinding,
+  BoundaryViolation,
+  FileImport,
+  FileExpandDirection,
+  CallHierarchyDirection,
+  SymbolInfo,
+  GraphLayout,
+  CompleteLayoutCache,
+  PinnedPositions,
+  GraphState,
+  MAX_JOURNEY_STEPS,
 } from '../types';
+import { findDependencyCycles } from '../pluginCycles';
+import { DependencyPathQuery, findShortestDependencyPaths } from './utils/dependencyPaths';
 
 // Import shared VS Code API instance
 import { vscode } from './vscodeApi';
@@ -24,11 +43,37 @@ function App() {
   const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
   const [searchResults, setSearchResults] = useState<{ [pluginId: string]: FileSearchResult[] }>({});
   const [viewMode, setViewMode] = useState<ViewMode>('journey');
+  const [layouts, setLayouts] = useState<NonNullable<GraphState['layouts']>>({});
+  const [pins, setPins] = useState<NonNullable<GraphState['pins']>>({});
+  const [completeLayoutCache, setCompleteLayoutCache] = useState<CompleteLayoutCache | null>(null);
   const [allPlugins, setAllPlugins] = useState<PluginInfoForWebview[]>([]);
   const [importAnalysis, setImportAnalysis] = useState<{ [dependencyPluginId: string]: ImportedExport[] }>({});
   const [analyzingImports, setAnalyzingImports] = useState<string | null>(null);
   const [openImportAnalysisPopup, setOpenImportAnalysisPopup] = useState<string | null>(null);
+  const [publicApiReports, setPublicApiReports] = useState<{ [pluginId: string]: PublicApiReport | null }>({});
+  const [analyzingPublicApi, setAnalyzingPublicApi] = useState<string | null>(null);
+  const [publicApiPluginId, setPublicApiPluginId] = useState<string | null>(null);
   const [loadingPlugins, setLoadingPlugins] = useState<Set<string>>(new Set());
+  const [sessions, setSessions] = useState<JourneySession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [journey, setJourney] = useState<JourneyStep[]>([]);
+  const [hiddenDependencyKinds, setHiddenDependencyKinds] = useState<Set<DependencyKind>>(new Set());
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null);
+  const [dependencyAudit, setDependencyAudit] = useState<DependencyAuditFinding[]>([]);
+  const [boundaryCheck, setBoundaryCheck] = useState<{ pluginIds: string[]; violations: BoundaryViolation[] } | null>(null);
+  const [isCheckingBoundaries, setIsCheckingBoundaries] = useState(false);
+  const [fileImports, setFileImports] = useState<FileImport[]>([]);
+
+  // Dependency cycles across all plugins - shared by the 2D and 3D graphs
+  const dependencyCycles = useMemo(() => findDependencyCycles(allPlugins), [allPlugins]);
+  const selectedCycle = dependencyCycles.find((cycle) => cycle.id === selectedCycleId) ?? null;
+
+  // "Path between" query - shared by the 2D and 3D graphs
+  const [dependencyPathQuery, setDependencyPathQuery] = useState<DependencyPathQuery | null>(null);
+  const dependencyPaths = useMemo(
+    () => (dependencyPathQuery ? findShortestDependencyPaths(allPlugins, dependencyPathQuery) : []),
+    [allPlugins, dependencyPathQuery]
+  );
 
   // Send message to extension
   const postMessage = useCallback((message: WebviewToExtensionMessage) => {
@@ -59,6 +104,15 @@ function App() {
           });
           break;
 
+        case 'updateEdge':
+          setEdges((prev) => prev.map((e) => (e.id === message.edge.id ? message.edge : e)));
+          break;
+
+        case 'addJourneyStep':
+          // Same limit as the persisted log
+          setJourney((prev) => [...prev, message.step].slice(-MAX_JOURNEY_STEPS));
+          break;
+
         case 'addGroup':
           setGroups((prev) => {
             if (prev.some((g) => g.id === message.group.id)) {
@@ -87,10 +141,19 @@ function App() {
           setNodes(message.state.nodes);
           setEdges(message.state.edges);
           setGroups(message.state.groups || []);
+          setJourney(message.state.journey || []);
+          setActiveSessionId(message.session.id);
           if (message.state.viewMode) {
             // Don't restore '3d' mode - it's experimental and slow
             setViewMode(message.state.viewMode === '3d' ? 'journey' : message.state.viewMode);
           }
+          setLayouts(message.state.layouts || {});
+          setPins(message.state.pins || {});
+          break;
+
+        case 'sessionList':
+          setSessions(message.sessions);
+          setActiveSessionId(message.activeSessionId);
           break;
 
         case 'highlightNode':
@@ -155,6 +218,10 @@ function App() {
           }));
           break;
 
+        case 'completeLayoutCache':
+          setCompleteLayoutCache(message.cache);
+          break;
+
         case 'allPlugins':
           setAllPlugins(message.plugins);
           break;
@@ -167,6 +234,27 @@ function App() {
           setAnalyzingImports(null);
           break;
 
+        case 'dependencyAudit':
+          setDependencyAudit(message.findings);
+          break;
+
+        case 'fileImports':
+          setFileImports(message.imports);
+          break;
+
+        case 'boundaryViolations':
+          setBoundaryCheck({ pluginIds: message.pluginIds, violations: message.violations });
+          setIsCheckingBoundaries(false);
+          break;
+
+        case 'publicApiAnalysis':
+          setPublicApiReports((prev) => ({
+            ...prev,
+            [message.pluginId]: message.report,
+          }));
+          setAnalyzingPublicApi((prev) => (prev === message.pluginId ? null : prev));
+          break;
+
         case 'tsLoading':
           setLoadingPlugins((prev) => {
             const next = new Set(prev);
@@ -183,6 +271,7 @@ function App() {
           setNodes([]);
           setEdges([]);
           setGroups([]);
+          setJourney([]);
           setSearchResults({});
           setImportAnalysis({});
           setLoadingPlugins(new Set());
@@ -208,6 +297,13 @@ function App() {
     [postMessage]
   );
 
+  const handleOpenFileAtLine = useCallback(
+    (filePath: string, line: number) => {
+      postMessage({ type: 'openFile', filePath, line });
+    },
+    [postMessage]
+  );
+
   const handleNodeDelete = useCallback(
     (nodeId: string, filePath: string) => {
       setNodes((prev) => prev.filter((n) => n.id !== nodeId));
@@ -226,6 +322,47 @@ function App() {
     [postMessage]
   );
 
+  const handleRequestFileImports = useCallback(
+    (filePaths: string[]) => {
+      postMessage({ type: 'requestFileImports', filePaths });
+    },
+    [postMessage]
+  );
+
+  const handleExpandFileNode = useCallback(
+    (filePath: string, direction: FileExpandDirection) => {
+      postMessage({ type: 'expandFileNode', filePath, direction });
+    },
+    [postMessage]
+  );
+
+  const handleExpandCallHierarchy = useCallback(
+    (symbol: SymbolInfo, direction: CallHierarchyDirection) => {
+      postMessage({ type: 'expandCallHierarchy', symbol, direction });
+    },
+    [postMessage]
+  );
+
+  const handleCheckBoundaries = useCallback(
+    (pluginIds: string[]) => {
+      setIsCheckingBoundaries(true);
+      postMessage({ type: 'checkBoundaries', pluginIds });
+    },
+    [postMessage]
+  );
+
+  // Reopening the panel rescans, since imports may have changed - the last report shows until then
+  const handleShowPublicApi = useCallback(
+    (pluginId: string | null) => {
+      setPublicApiPluginId(pluginId);
+      if (pluginId) {
+        setAnalyzingPublicApi(pluginId);
+        postMessage({ type: 'analyzePublicApi', pluginId });
+      }
+    },
+    [postMessage]
+  );
+
   const handleOpenImportSource = useCallback(
     (importPath: string, symbolName: string) => {
       // Close the popup when opening a file from it
@@ -239,6 +376,7 @@ function App() {
     setNodes([]);
     setEdges([]);
     setGroups([]);
+    setJourney([]);
     setSearchResults({});
     postMessage({ type: 'clearGraph' });
   }, [postMessage]);
@@ -264,32 +402,146 @@ function App() {
     (newNodes: FileNode[], newEdges: NavigationEdge[]) => {
       setNodes(newNodes);
       setEdges(newEdges);
-      postMessage({ type: 'saveState', state: { nodes: newNodes, edges: newEdges, groups, viewMode: getPersistableViewMode(viewMode) } });
+      postMessage({
+        type: 'saveState',
+        state: { nodes: newNodes, edges: newEdges, groups, viewMode: getPersistableViewMode(viewMode), layouts, pins },
+        sessionId: activeSessionId ?? undefined,
+      });
     },
-    [postMessage, groups, viewMode]
+    [postMessage, groups, viewMode, layouts, pins, activeSessionId]
   );
 
+  // Dragging pinned groups moves their pins too, so both are saved together
   const handleGroupsChange = useCallback(
-    (newGroups: GroupNode[]) => {
+    (newGroups: GroupNode[], newPins: NonNullable<GraphState['pins']> = pins) => {
       setGroups(newGroups);
-      postMessage({ type: 'saveState', state: { nodes, edges, groups: newGroups, viewMode: getPersistableViewMode(viewMode) } });
+      setPins(newPins);
+      postMessage({
+        type: 'saveState',
+        state: { nodes, edges, groups: newGroups, viewMode: getPersistableViewMode(viewMode), layouts, pins: newPins },
+        sessionId: activeSessionId ?? undefined,
+      });
     },
-    [postMessage, nodes, edges, viewMode]
+    [postMessage, nodes, edges, viewMode, layouts, pins, activeSessionId]
   );
 
   const handleModeChange = useCallback(
     (newMode: ViewMode) => {
       setViewMode(newMode);
       // Don't persist '3d' mode - it's experimental and slow
-      postMessage({ type: 'saveState', state: { nodes, edges, groups, viewMode: getPersistableViewMode(newMode) } });
+      postMessage({
+        type: 'saveState',
+        state: { nodes, edges, groups, viewMode: getPersistableViewMode(newMode), layouts, pins },
+        sessionId: activeSessionId ?? undefined,
+      });
       // Notify extension about mode change to update groups/edges
       postMessage({ type: 'modeChange', mode: newMode });
     },
-    [postMessage, nodes, edges, groups]
+    [postMessage, nodes, edges, groups, layouts, pins, activeSessionId]
+  );
+
+  const handleLayoutChange = useCallback(
+    (mode: 'plugin' | 'complete', layout: GraphLayout) => {
+      const newLayouts = { ...layouts, [mode]: layout };
+      setLayouts(newLayouts);
+      postMessage({
+        type: 'saveState',
+        state: { nodes, edges, groups, viewMode: getPersistableViewMode(viewMode), layouts: newLayouts, pins },
+        sessionId: activeSessionId ?? undefined,
+      });
+    },
+    [postMessage, nodes, edges, groups, viewMode, layouts, pins, activeSessionId]
+  );
+
+  const handlePinsChange = useCallback(
+    (mode: 'plugin' | 'complete', modePins: PinnedPositions) => {
+      const newPins = { ...pins, [mode]: modePins };
+      setPins(newPins);
+      postMessage({
+        type: 'saveState',
+        state: { nodes, edges, groups, viewMode: getPersistableViewMode(viewMode), layouts, pins: newPins },
+        sessionId: activeSessionId ?? undefined,
+      });
+    },
+    [postMessage, nodes, edges, groups, viewMode, layouts, pins, activeSessionId]
+  );
+
+  const handleSaveCompleteLayout = useCallback(
+    (cache: CompleteLayoutCache) => {
+      setCompleteLayoutCache(cache);
+      postMessage({ type: 'saveCompleteLayout', cache });
+    },
+    [postMessage]
+  );
+
+  const handleExportDiagram = useCallback(
+    (format: DiagramFormat, content: string) => {
+      postMessage({ type: 'exportDiagram', format, content });
+    },
+    [postMessage]
+  );
+
+  const handleExportImpactReport = useCallback(
+    (content: string) => {
+      postMessage({ type: 'exportImpactReport', content });
+    },
+    [postMessage]
+  );
+
+  // Dependency kind toggles are shared by the 2D and 3D graphs
+  const handleToggleDependencyKind = useCallback((kind: DependencyKind) => {
+    setHiddenDependencyKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  }, []);
+
+  // Journey replay
+  const handleOpenJourneyStep = useCallback(
+    (step: JourneyStep) => {
+      postMessage({ type: 'openJourneyStep', filePath: step.targetPath, line: step.symbol?.line });
+    },
+    [postMessage]
+  );
+
+  // Session management - the extension prompts for names and answers with loadState/sessionList
+  const handleSwitchSession = useCallback(
+    (sessionId: string) => postMessage({ type: 'switchSession', sessionId }),
+    [postMessage]
+  );
+  const handleCreateSession = useCallback(() => postMessage({ type: 'createSession' }), [postMessage]);
+  const handleRenameSession = useCallback(
+    (sessionId: string) => postMessage({ type: 'renameSession', sessionId }),
+    [postMessage]
+  );
+  const handleDuplicateSession = useCallback(
+    (sessionId: string) => postMessage({ type: 'duplicateSession', sessionId }),
+    [postMessage]
+  );
+  const handleDeleteSession = useCallback(
+    (sessionId: string) => postMessage({ type: 'deleteSession', sessionId }),
+    [postMessage]
   );
 
   return (
-    <div style={{ width: '100%', height: '100%' }}>
+    <div style={{ width: '100%', height: '100%', position: 'relative' }}>
+      {/* Session picker - shared header control for all view modes */}
+      <div style={{ position: 'absolute', top: 10, left: 10, zIndex: 10 }}>
+        <SessionPicker
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          onSwitch={handleSwitchSession}
+          onCreate={handleCreateSession}
+          onRename={handleRenameSession}
+          onDuplicate={handleDuplicateSession}
+          onDelete={handleDeleteSession}
+        />
+      </div>
       {viewMode === '3d' ? (
         <PathfinderGraph3D
           allPlugins={allPlugins}
@@ -297,6 +549,14 @@ function App() {
           fileEdges={edges}
           groups={groups}
           activeNodeId={activeNodeId}
+          hiddenDependencyKinds={hiddenDependencyKinds}
+          onToggleDependencyKind={handleToggleDependencyKind}
+          dependencyCycles={dependencyCycles}
+          selectedCycle={selectedCycle}
+          onSelectCycle={setSelectedCycleId}
+          dependencyPathQuery={dependencyPathQuery}
+          dependencyPaths={dependencyPaths}
+          onDependencyPathQueryChange={setDependencyPathQuery}
           onPluginClick={handleOpenPluginIndex}
           onPluginDoubleClick={handleOpenPluginIndex}
           onFileClick={handleNodeClick}
@@ -308,6 +568,7 @@ function App() {
           nodes={nodes}
           edges={edges}
           groups={groups}
+          journey={journey}
           highlightedNodeId={highlightedNodeId}
           activeNodeId={activeNodeId}
           searchResults={searchResults}
@@ -317,6 +578,14 @@ function App() {
           analyzingImports={analyzingImports}
           openImportAnalysisPopup={openImportAnalysisPopup}
           loadingPlugins={loadingPlugins}
+          hiddenDependencyKinds={hiddenDependencyKinds}
+          onToggleDependencyKind={handleToggleDependencyKind}
+          dependencyCycles={dependencyCycles}
+          selectedCycle={selectedCycle}
+          onSelectCycle={setSelectedCycleId}
+          dependencyPathQuery={dependencyPathQuery}
+          dependencyPaths={dependencyPaths}
+          onDependencyPathQueryChange={setDependencyPathQuery}
           onNodeClick={handleNodeClick}
           onNodeDelete={handleNodeDelete}
           onClear={handleClear}
@@ -328,6 +597,28 @@ function App() {
           onAnalyzeImports={handleAnalyzeImports}
           onToggleImportAnalysis={setOpenImportAnalysisPopup}
           onOpenImportSource={handleOpenImportSource}
+          onOpenImportUsage={handleOpenFileAtLine}
+          dependencyAudit={dependencyAudit}
+          boundaryCheck={boundaryCheck}
+          isCheckingBoundaries={isCheckingBoundaries}
+          onCheckBoundaries={handleCheckBoundaries}
+          fileImports={fileImports}
+          onRequestFileImports={handleRequestFileImports}
+          onExpandFileNode={handleExpandFileNode}
+          onExpandCallHierarchy={handleExpandCallHierarchy}
+          layouts={layouts}
+          onLayoutChange={handleLayoutChange}
+          pins={pins}
+          onPinsChange={handlePinsChange}
+          completeLayoutCache={completeLayoutCache}
+          onSaveCompleteLayout={handleSaveCompleteLayout}
+          publicApiPluginId={publicApiPluginId}
+          publicApiReport={publicApiPluginId ? publicApiReports[publicApiPluginId] ?? null : null}
+          isAnalyzingPublicApi={analyzingPublicApi !== null && analyzingPublicApi === publicApiPluginId}
+          onShowPublicApi={handleShowPublicApi}
+          onExportDiagram={handleExportDiagram}
+          onExportImpactReport={handleExportImpactReport}
+          onOpenJourneyStep={handleOpenJourneyStep}
         />
       )}
     </div>
@@ -0,0 +1,156 @@
+import React, { memo, useState } from 'react';
+import { BoundaryViolation, PluginInfoForWebview } from '../../types';
+
+interface BoundaryPanelProps {
+  violations: BoundaryViolation[] | null; // null until the first check finishes
+  checkedPluginCount: number;
+  isChecking: boolean;
+  plugins: PluginInfoForWebview[];
+  onOpenViolation: (filePath: string, line: number) => void;
+  onRecheck: () => void;
+  onClose: () => void;
+}
+
+export const BOUNDARY_COLOR = 'var(--vscode-errorForeground, #f14c4c)';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+const tagStyle: React.CSSProperties = {
+  padding: '0 4px',
+  borderRadius: '3px',
+  fontSize: '9px',
+  background: 'var(--vscode-badge-background, #4d4d4d)',
+  color: 'var(--vscode-badge-foreground, #ffffff)',
+  flexShrink: 0,
+};
+
+/**
+ * Cross-environment imports (public ↔ server, common → either) of the plugins shown in Plugin mode,
+ * grouped by importing plugin. Each import opens at its line.
+ */
+export const BoundaryPanel = memo(
+  ({ violations, checkedPluginCount, isChecking, plugins, onOpenViolation, onRecheck, onClose }: BoundaryPanelProps) => {
+    const [collapsedPlugins, setCollapsedPlugins] = useState<Set<string>>(new Set());
+    const packageIds = new Map(plugins.map((p) => [p.runtimeId, p.packageId]));
+
+    const byPlugin = new Map<string, BoundaryViolation[]>();
+    for (const violation of violations || []) {
+      const list = byPlugin.get(violation.pluginId) || [];
+      list.push(violation);
+      byPlugin.set(violation.pluginId, list);
+    }
+
+    const togglePlugin = (pluginId: string) => {
+      setCollapsedPlugins((prev) => {
+        const next = new Set(prev);
+        if (next.has(pluginId)) {
+          next.delete(pluginId);
+        } else {
+          next.add(pluginId);
+        }
+        return next;
+      });
+    };
+
+    let summary: string;
+    if (isChecking) {
+      summary = 'Checking imports...';
+    } else if (!violations) {
+      summary = 'Not checked yet';
+    } else if (violations.length === 0) {
+      summary = `No cross-boundary imports in ${checkedPluginCount} ${checkedPluginCount === 1 ? 'plugin' : 'plugins'}`;
+    } else {
+      summary = `${violations.length} cross-boundary imports in ${byPlugin.size} of ${checkedPluginCount} plugins`;
+    }
+
+    return (
+      <div
+        style={{
+          width: '320px',
+          maxHeight: '60vh',
+          display: 'flex',
+          flexDirection: 'column',
+          background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+          border: '1px solid var(--vscode-panel-border)',
+          borderRadius: '6px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+          color: 'var(--vscode-foreground)',
+          fontSize: '11px',
+          fontFamily: 'var(--vscode-font-family)',
+        }}
+      >
+        <div style={{ padding: '8px 10px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ flex: 1, fontWeight: 600 }}>Import boundaries</span>
+            <button onClick={onRecheck} disabled={isChecking} style={buttonStyle} title="Check the plugins in the graph again">
+              Re-check
+            </button>
+            <button onClick={onClose} style={{ ...buttonStyle, padding: '2px 6px' }} title="Close">
+              ×
+            </button>
+          </div>
+          <div style={{ marginTop: '4px', color: 'var(--vscode-descriptionForeground)' }}>{summary}</div>
+        </div>
+
+        <div style={{ overflowY: 'auto', padding: '4px 0' }}>
+          {[...byPlugin].map(([pluginId, pluginViolations]) => {
+            const isExpanded = !collapsedPlugins.has(pluginId);
+            return (
+              <div key={pluginId}>
+                <div
+                  onClick={() => togglePlugin(pluginId)}
+                  style={{ display: 'flex', padding: '3px 10px', cursor: 'pointer', fontWeight: 600 }}
+                >
+                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {isExpanded ? '▾' : '▸'} {packageIds.get(pluginId) || pluginId}
+                  </span>
+                  <span style={{ color: BOUNDARY_COLOR }}>{pluginViolations.length}</span>
+                </div>
+                {isExpanded &&
+                  pluginViolations.map((violation) => (
+                    <div
+                      key={`${violation.filePath}:${violation.line}:${violation.moduleSpecifier}`}
+                      onClick={() => onOpenViolation(violation.filePath, violation.line)}
+                      title={`${violation.relativePath}:${violation.line}\nimports ${violation.moduleSpecifier}`}
+                      style={{ padding: '2px 10px 2px 24px', cursor: 'pointer' }}
+                    >
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                        <span style={{ ...tagStyle, background: BOUNDARY_COLOR }}>
+                          {violation.from} → {violation.to}
+                        </span>
+                        {violation.isTypeOnly && <span style={tagStyle}>type</span>}
+                        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {violation.relativePath}:{violation.line}
+                        </span>
+                      </div>
+                      <div
+                        style={{
+                          color: 'var(--vscode-descriptionForeground)',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                        }}
+                      >
+                        {violation.moduleSpecifier}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+);
+
+BoundaryPanel.displayName = 'BoundaryPanel';
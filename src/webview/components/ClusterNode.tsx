@@ -0,0 +1,78 @@
+import React, { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+
+interface ClusterNodeData {
+  label: string; // Directory area or manifest group
+  pluginCount: number;
+  accentColor?: string; // Complete mode color-by, when every plugin in the cluster shares a color
+  onExpand?: () => void; // Zoom in far enough to show the cluster's plugins
+}
+
+interface ClusterNodeProps {
+  data: ClusterNodeData;
+}
+
+// Clusters are only shown zoomed far out, so everything is drawn large
+const handleStyle = {
+  background: 'var(--vscode-editorLineNumber-foreground, #5a5a5a)',
+  width: 12,
+  height: 12,
+  border: 'none',
+};
+
+/**
+ * Stands in for all plugins of a directory area or manifest group when Complete mode is zoomed out.
+ */
+export const ClusterNode = memo(({ data }: ClusterNodeProps) => {
+  return (
+    <div
+      data-node-type="cluster-node"
+      onDoubleClick={data.onExpand}
+      title={`${data.label}: ${data.pluginCount} ${data.pluginCount === 1 ? 'plugin' : 'plugins'}\nDouble-click or zoom in to show them`}
+      style={{
+        width: '100%',
+        height: '100%',
+        boxSizing: 'border-box',
+        padding: '16px 24px',
+        borderRadius: '24px',
+        background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+        border: `6px solid ${data.accentColor || 'var(--vscode-charts-purple, #c586c0)'}`,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '8px',
+        cursor: 'zoom-in',
+        fontFamily: 'var(--vscode-font-family)',
+      }}
+    >
+      <Handle type="source" position={Position.Top} id="top-source" style={handleStyle} />
+      <Handle type="source" position={Position.Right} id="right-source" style={handleStyle} />
+      <Handle type="source" position={Position.Bottom} id="bottom-source" style={handleStyle} />
+      <Handle type="source" position={Position.Left} id="left-source" style={handleStyle} />
+      <Handle type="target" position={Position.Top} id="top-target" style={handleStyle} />
+      <Handle type="target" position={Position.Right} id="right-target" style={handleStyle} />
+      <Handle type="target" position={Position.Bottom} id="bottom-target" style={handleStyle} />
+      <Handle type="target" position={Position.Left} id="left-target" style={handleStyle} />
+
+      <div
+        style={{
+          fontSize: '64px',
+          fontWeight: 600,
+          color: 'var(--vscode-foreground)',
+          maxWidth: '100%',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {data.label}
+      </div>
+      <div style={{ fontSize: '44px', color: 'var(--vscode-descriptionForeground, #808080)' }}>
+        {data.pluginCount} {data.pluginCount === 1 ? 'plugin' : 'plugins'}
+      </div>
+    </div>
+  );
+});
+
+ClusterNode.displayName = 'ClusterNode';
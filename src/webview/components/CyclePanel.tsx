@@ -0,0 +1,55 @@
+import React, { memo } from 'react';
+import { DependencyCycle } from '../../pluginCycles';
+
+interface CyclePanelProps {
+  cycles: DependencyCycle[];
+  selectedCycleId: string | null;
+  onSelectCycle: (cycleId: string | null) => void;
+}
+
+export const CYCLE_COLOR = 'var(--vscode-errorForeground, #f14c4c)';
+export const CYCLE_RGB: [number, number, number] = [241, 76, 76];
+
+function formatPluginId(pluginId: string): string {
+  return pluginId.replace('@kbn/', '');
+}
+
+/**
+ * Lists plugin dependency cycles. Selecting one highlights its plugins and edges in the graph.
+ */
+export const CyclePanel = memo(({ cycles, selectedCycleId, onSelectCycle }: CyclePanelProps) => {
+  if (cycles.length === 0) {
+    return <div style={{ color: 'var(--vscode-descriptionForeground)' }}>No dependency cycles</div>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', maxHeight: '160px', overflowY: 'auto' }}>
+      {cycles.map((cycle) => {
+        const isSelected = cycle.id === selectedCycleId;
+        return (
+          <div
+            key={cycle.id}
+            onClick={() => onSelectCycle(isSelected ? null : cycle.id)}
+            title={`${cycle.pluginIds.length} plugins: ${cycle.pluginIds.join(', ')}`}
+            style={{
+              padding: '2px 4px',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+              maxWidth: '200px',
+              background: isSelected ? 'var(--vscode-list-activeSelectionBackground)' : 'transparent',
+              color: isSelected ? 'var(--vscode-list-activeSelectionForeground)' : CYCLE_COLOR,
+            }}
+          >
+            {cycle.pluginIds.length > cycle.path.length - 1 && `(${cycle.pluginIds.length}) `}
+            {cycle.path.map(formatPluginId).join(' → ')}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+CyclePanel.displayName = 'CyclePanel';
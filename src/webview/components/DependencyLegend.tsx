@@ -0,0 +1,120 @@
+import React, { memo } from 'react';
+import { DependencyAuditFinding, DependencyKind } from '../../types';
+import { DEPENDENCY_KINDS } from '../../pluginDependencies';
+
+// Edge appearance per dependency kind - shared by the 2D and 3D graphs
+export const DEPENDENCY_KIND_STYLES: Record<
+  DependencyKind,
+  { label: string; description: string; color: string; rgb: [number, number, number]; dashArray?: string }
+> = {
+  required: {
+    label: 'Required',
+    description: 'requiredPlugins',
+    color: '#666666',
+    rgb: [80, 80, 80],
+  },
+  runtime: {
+    label: 'Runtime',
+    description: 'runtimePluginDependencies',
+    color: 'var(--vscode-charts-purple, #b180d7)',
+    rgb: [177, 128, 215],
+    dashArray: '8 3 2 3',
+  },
+  optional: {
+    label: 'Optional',
+    description: 'optionalPlugins',
+    color: 'var(--vscode-charts-yellow, #cca700)',
+    rgb: [204, 167, 0],
+    dashArray: '6 4',
+  },
+  bundle: {
+    label: 'Bundle',
+    description: 'requiredBundles',
+    color: 'var(--vscode-charts-green, #89d185)',
+    rgb: [137, 209, 133],
+    dashArray: '2 3',
+  },
+};
+
+// Plugin mode edges from the "Audit Plugin Dependencies" command
+export const DEPENDENCY_AUDIT_STYLES: Record<
+  DependencyAuditFinding['problem'],
+  { label: string; description: string; color: string; dashArray?: string }
+> = {
+  undeclared: {
+    label: 'Undeclared',
+    description: 'Runtime code is imported without declaring the plugin',
+    color: 'var(--vscode-errorForeground, #f14c4c)',
+  },
+  unused: {
+    label: 'Never imported',
+    description: 'Declared in kibana.jsonc but never imported',
+    color: 'var(--vscode-disabledForeground, #808080)',
+    dashArray: '1 4',
+  },
+};
+
+interface DependencyLegendProps {
+  hiddenKinds: Set<DependencyKind>;
+  onToggleKind: (kind: DependencyKind) => void;
+  showAudit?: boolean; // Add the audit edge styles
+}
+
+/**
+ * Legend for dependency edge styles. Clicking a kind shows/hides its edges.
+ */
+export const DependencyLegend = memo(({ hiddenKinds, onToggleKind, showAudit }: DependencyLegendProps) => {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+      {DEPENDENCY_KINDS.map((kind) => {
+        const style = DEPENDENCY_KIND_STYLES[kind];
+        const isHidden = hiddenKinds.has(kind);
+        return (
+          <label
+            key={kind}
+            title={`${isHidden ? 'Show' : 'Hide'} ${style.description} edges`}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              cursor: 'pointer',
+              opacity: isHidden ? 0.5 : 1,
+            }}
+          >
+            <input type="checkbox" checked={!isHidden} onChange={() => onToggleKind(kind)} style={{ margin: 0 }} />
+            <svg width="24" height="8">
+              <line
+                x1="0"
+                y1="4"
+                x2="24"
+                y2="4"
+                stroke={style.color}
+                strokeWidth="2"
+                strokeDasharray={style.dashArray}
+              />
+            </svg>
+            <span>{style.label}</span>
+          </label>
+        );
+      })}
+      {showAudit &&
+        (Object.keys(DEPENDENCY_AUDIT_STYLES) as DependencyAuditFinding['problem'][]).map((problem) => {
+          const style = DEPENDENCY_AUDIT_STYLES[problem];
+          return (
+            <div
+              key={problem}
+              title={style.description}
+              style={{ display: 'flex', alignItems: 'center', gap: '6px', paddingLeft: '19px' }}
+            >
+              <svg width="24" height="8">
+                <line x1="0" y1="4" x2="24" y2="4" stroke={style.color} strokeWidth="2" strokeDasharray={style.dashArray} />
+              </svg>
+              <span>{style.label}</span>
+            </div>
+          );
+        })}
+    </div>
+  );
+});
+
+DependencyLegend.displayName = 'DependencyLegend';
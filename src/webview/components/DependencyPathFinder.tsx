@@ -0,0 +1,172 @@
+import React, { memo, useEffect, useId, useState } from 'react';
+import { PluginInfoForWebview } from '../../types';
+import { DependencyPathQuery } from '../utils/dependencyPaths';
+
+interface DependencyPathFinderProps {
+  plugins: PluginInfoForWebview[];
+  query: DependencyPathQuery | null;
+  paths: string[][];
+  onQueryChange: (query: DependencyPathQuery | null) => void;
+}
+
+export const PATH_COLOR = 'var(--vscode-charts-orange, #d18616)';
+export const PATH_RGB: [number, number, number] = [209, 134, 22];
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '4px 8px',
+  background: 'var(--vscode-input-background)',
+  color: 'var(--vscode-input-foreground)',
+  border: '1px solid var(--vscode-input-border, var(--vscode-panel-border))',
+  borderRadius: '4px',
+  fontSize: '12px',
+  fontFamily: 'var(--vscode-font-family)',
+  outline: 'none',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+/**
+ * "Path between" tool: pick two plugins and list every shortest requiredPlugins chain
+ * from the first to the second. The graph highlights the chains while a query is set.
+ */
+export const DependencyPathFinder = memo(({ plugins, query, paths, onQueryChange }: DependencyPathFinderProps) => {
+  const listId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [from, setFrom] = useState(query?.from ?? '');
+  const [to, setTo] = useState(query?.to ?? '');
+
+  // Follow queries set from the other graph view
+  useEffect(() => {
+    setFrom(query?.from ?? '');
+    setTo(query?.to ?? '');
+  }, [query]);
+
+  const isKnownPlugin = (runtimeId: string) => plugins.some((p) => p.runtimeId === runtimeId);
+  const canSearch = isKnownPlugin(from) && isKnownPlugin(to) && from !== to;
+
+  const handleClear = () => {
+    setFrom('');
+    setTo('');
+    onQueryChange(null);
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          ...buttonStyle,
+          background: query ? 'var(--vscode-button-background)' : buttonStyle.background,
+          color: query ? 'var(--vscode-button-foreground)' : buttonStyle.color,
+        }}
+        title="Find why one plugin depends on another"
+      >
+        Path
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: '4px',
+            width: '320px',
+            padding: '8px 10px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+            border: '1px solid var(--vscode-panel-border)',
+            borderRadius: '6px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+            color: 'var(--vscode-foreground)',
+            fontSize: '12px',
+            fontFamily: 'var(--vscode-font-family)',
+            zIndex: 100,
+          }}
+        >
+          <datalist id={listId}>
+            {plugins.map((plugin) => (
+              <option key={plugin.runtimeId} value={plugin.runtimeId}>
+                {plugin.packageId}
+              </option>
+            ))}
+          </datalist>
+          <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+            <span style={{ width: '32px' }}>From</span>
+            <input list={listId} value={from} onChange={(e) => setFrom(e.target.value)} placeholder="plugin" style={inputStyle} />
+          </div>
+          <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+            <span style={{ width: '32px' }}>To</span>
+            <input list={listId} value={to} onChange={(e) => setTo(e.target.value)} placeholder="dependency" style={inputStyle} />
+          </div>
+          <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end' }}>
+            <button
+              onClick={() => {
+                setFrom(to);
+                setTo(from);
+              }}
+              style={buttonStyle}
+              title="Swap plugins"
+            >
+              ⇅
+            </button>
+            <button onClick={handleClear} disabled={!query && !from && !to} style={buttonStyle}>
+              Clear
+            </button>
+            <button
+              onClick={() => onQueryChange({ from, to })}
+              disabled={!canSearch}
+              style={{
+                ...buttonStyle,
+                background: 'var(--vscode-button-background)',
+                color: 'var(--vscode-button-foreground)',
+                opacity: canSearch ? 1 : 0.5,
+              }}
+            >
+              Find paths
+            </button>
+          </div>
+
+          {query && (
+            <div style={{ borderTop: '1px solid var(--vscode-panel-border)', paddingTop: '6px' }}>
+              {paths.length === 0 ? (
+                <div style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                  {query.from} does not depend on {query.to} through requiredPlugins
+                </div>
+              ) : (
+                <>
+                  <div style={{ color: 'var(--vscode-descriptionForeground)', marginBottom: '4px' }}>
+                    {paths.length} shortest {paths.length === 1 ? 'path' : 'paths'} of {paths[0].length - 1}{' '}
+                    {paths[0].length === 2 ? 'step' : 'steps'}
+                  </div>
+                  <div style={{ maxHeight: '160px', overflowY: 'auto' }}>
+                    {paths.map((path) => (
+                      <div key={path.join('>')} style={{ color: PATH_COLOR, padding: '1px 0' }}>
+                        {path.join(' → ')}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+DependencyPathFinder.displayName = 'DependencyPathFinder';
@@ -1,7 +1,7 @@
 import React, { memo, useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { Handle, Position } from '@xyflow/react';
-import type { SymbolInfo } from '../../types';
+import type { SymbolInfo, FileExpandDirection, CallHierarchyDirection } from '../../types';
 import { vscode } from '../vscodeApi';
 
 interface FileNodeData {
@@ -15,6 +15,8 @@ interface FileNodeData {
   isActive: boolean;
   onDelete: () => void;
   onClick: () => void;
+  onExpand: (direction: FileExpandDirection) => void;
+  onExpandCalls: (symbol: SymbolInfo, direction: CallHierarchyDirection) => void;
 }
 
 interface FileNodeProps {
@@ -72,9 +74,95 @@ function requestCodePreview(filePath: string, line: number, contextLines: number
   });
 }
 
+interface MenuItem {
+  key: string;
+  label: string;
+  description: string;
+  onSelect: () => void;
+}
+
+// Right-click menu of a file node or symbol tag, rendered via portal so the graph's zoom doesn't scale it
+const ContextMenu = memo(
+  ({ position, items, onClose }: { position: { x: number; y: number }; items: MenuItem[]; onClose: () => void }) => {
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+      const handleMouseDown = (e: MouseEvent) => {
+        if (!menuRef.current?.contains(e.target as Node)) {
+          onClose();
+        }
+      };
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          onClose();
+        }
+      };
+      window.addEventListener('mousedown', handleMouseDown);
+      window.addEventListener('keydown', handleKeyDown);
+      return () => {
+        window.removeEventListener('mousedown', handleMouseDown);
+        window.removeEventListener('keydown', handleKeyDown);
+      };
+    }, [onClose]);
+
+    return createPortal(
+      <div
+        ref={menuRef}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'fixed',
+          left: position.x,
+          top: position.y,
+          minWidth: '180px',
+          padding: '4px 0',
+          background: 'var(--vscode-menu-background, #252526)',
+          border: '1px solid var(--vscode-menu-border, #454545)',
+          borderRadius: '4px',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+          color: 'var(--vscode-menu-foreground, #cccccc)',
+          fontSize: '12px',
+          fontFamily: 'var(--vscode-font-family)',
+          zIndex: 10000,
+        }}
+      >
+        {items.map(({ key, label, description, onSelect }) => (
+          <div
+            key={key}
+            onClick={() => {
+              onSelect();
+              onClose();
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.background = 'var(--vscode-menu-selectionBackground, #04395e)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.background = 'transparent';
+            }}
+            title={description}
+            style={{ padding: '4px 12px', cursor: 'pointer' }}
+          >
+            {label}
+          </div>
+        ))}
+      </div>,
+      document.body
+    );
+  }
+);
+
+ContextMenu.displayName = 'ContextMenu';
+
+interface SymbolTagProps {
+  symbol: SymbolInfo;
+  isSource: boolean;
+  onExpandCalls: (symbol: SymbolInfo, direction: CallHierarchyDirection) => void;
+}
+
 // Symbol tag component with hover preview
-const SymbolTag = memo(({ symbol, isSource }: { symbol: SymbolInfo; isSource: boolean }) => {
+const SymbolTag = memo(({ symbol, isSource, onExpandCalls }: SymbolTagProps) => {
   const [isHovered, setIsHovered] = useState(false);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const closeMenu = useCallback(() => setMenuPosition(null), []);
   const [codePreview, setCodePreview] = useState<CodePreview | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [popoverPosition, setPopoverPosition] = useState<{ x: number; y: number } | null>(null);
@@ -239,6 +327,13 @@ const SymbolTag = memo(({ symbol, isSource }: { symbol: SymbolInfo; isSource: bo
       ref={spanRef}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
+      onContextMenu={(e) => {
+        // Keep the file node's own menu closed
+        e.preventDefault();
+        e.stopPropagation();
+        handleMouseLeave();
+        setMenuPosition({ x: e.clientX, y: e.clientY });
+      }}
       style={{
         cursor: 'pointer',
         position: 'relative',
@@ -260,6 +355,26 @@ const SymbolTag = memo(({ symbol, isSource }: { symbol: SymbolInfo; isSource: bo
         {symbol.name}
       </span>
       {popover}
+      {menuPosition && (
+        <ContextMenu
+          position={menuPosition}
+          items={[
+            {
+              key: 'incoming',
+              label: 'Add callers to graph',
+              description: `Functions that call ${symbol.name}, from the call hierarchy`,
+              onSelect: () => onExpandCalls(symbol, 'incoming'),
+            },
+            {
+              key: 'outgoing',
+              label: 'Add callees to graph',
+              description: `Functions ${symbol.name} calls, from the call hierarchy`,
+              onSelect: () => onExpandCalls(symbol, 'outgoing'),
+            },
+          ]}
+          onClose={closeMenu}
+        />
+      )}
     </span>
   );
 });
@@ -268,6 +383,8 @@ SymbolTag.displayName = 'SymbolTag';
 
 export const FileNode = memo(({ data }: FileNodeProps) => {
   const [isHovered, setIsHovered] = useState(false);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const closeMenu = useCallback(() => setMenuPosition(null), []);
 
   return (
     <div
@@ -279,6 +396,11 @@ export const FileNode = memo(({ data }: FileNodeProps) => {
         e.stopPropagation();
         data.onClick();
       }}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setMenuPosition({ x: e.clientX, y: e.clientY });
+      }}
       style={{
         position: 'relative',
         width: '100%',
@@ -413,7 +535,7 @@ export const FileNode = memo(({ data }: FileNodeProps) => {
             {data.sourceSymbols.slice(0, 3).map((symbol, idx) => (
               <React.Fragment key={`${symbol.name}-${symbol.line}`}>
                 {idx > 0 && <span style={{ color: 'var(--vscode-descriptionForeground)', fontSize: '10px' }}>,</span>}
-                <SymbolTag symbol={symbol} isSource={true} />
+                <SymbolTag symbol={symbol} isSource={true} onExpandCalls={data.onExpandCalls} />
               </React.Fragment>
             ))}
             {data.sourceSymbols.length > 3 && (
@@ -438,7 +560,7 @@ export const FileNode = memo(({ data }: FileNodeProps) => {
             {data.symbols.slice(0, 3).map((symbol, idx) => (
               <React.Fragment key={`${symbol.name}-${symbol.line}`}>
                 {idx > 0 && <span style={{ color: 'var(--vscode-descriptionForeground)', fontSize: '10px' }}>,</span>}
-                <SymbolTag symbol={symbol} isSource={false} />
+                <SymbolTag symbol={symbol} isSource={false} onExpandCalls={data.onExpandCalls} />
               </React.Fragment>
             ))}
             {data.symbols.length > 3 && (
@@ -548,6 +670,27 @@ export const FileNode = memo(({ data }: FileNodeProps) => {
           {data.filePath}
         </div>
       )}
+
+      {menuPosition && (
+        <ContextMenu
+          position={menuPosition}
+          items={[
+            {
+              key: 'imports',
+              label: 'Add imports to graph',
+              description: 'Files this file imports directly',
+              onSelect: () => data.onExpand('imports'),
+            },
+            {
+              key: 'importers',
+              label: 'Add importers to graph',
+              description: 'Files in the workspace that import this file',
+              onSelect: () => data.onExpand('importers'),
+            },
+          ]}
+          onClose={closeMenu}
+        />
+      )}
     </div>
   );
 });
@@ -1,6 +1,7 @@
 import React, { memo, useState, useRef, useEffect } from 'react';
 import { Handle, Position } from '@xyflow/react';
-import { FileSearchResult, ImportedExport } from '../../types';
+import { FileSearchResult, ImportedExport, PluginMetadata } from '../../types';
+import { describeMetadata } from '../utils/pluginMetadata';
 
 interface GroupNodeData {
   label: string;
@@ -12,6 +13,8 @@ interface GroupNodeData {
   onOpenPluginIndex?: (pluginId: string) => void;
   isCompleteMode?: boolean;
   pluginPath?: string; // Path to the plugin directory
+  metadata?: PluginMetadata; // Manifest owner/type/group/visibility
+  accentColor?: string; // Complete mode color-by
   isLoading?: boolean; // TypeScript is loading for this plugin
   parentPluginId?: string; // For dependency groups: the main plugin that depends on this
   onAnalyzeImports?: (mainPluginId: string, dependencyPluginId: string) => void;
@@ -20,13 +23,156 @@ interface GroupNodeData {
   showImportAnalysis?: boolean; // Controlled from parent - whether to show the import analysis popup
   onToggleImportAnalysis?: (dependencyLabel: string | null) => void; // Toggle callback
   onOpenImportSource?: (importPath: string, symbolName: string) => void; // Open file where symbol is defined
+  onOpenImportUsage?: (filePath: string, line: number) => void; // Open an importing file at a line
   onSearchActiveChange?: (isActive: boolean) => void; // Notify parent when file search is active (for z-index boosting)
+  dependentCount?: number; // Plugins that list this one as a dependency
+  isImpactRoot?: boolean; // The impact panel is showing this plugin's dependents
+  onShowImpact?: () => void; // Open the impact ("blast radius") panel for this plugin
+  isPublicApiRoot?: boolean; // The public API panel is showing this plugin
+  onShowPublicApi?: () => void; // Open the reverse import analysis of this plugin's exports
+  isPinned?: boolean; // Layouts leave this group where it is
+  onTogglePin?: () => void; // Pin the group at its current position, or unpin it
 }
 
 interface GroupNodeProps {
   data: GroupNodeData;
 }
 
+function getMetadataTitle(metadata: PluginMetadata | undefined): string | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+  const owners = metadata.owner.length > 0 ? `Owner: ${metadata.owner.join(', ')}` : 'No owner declared';
+  const summary = describeMetadata(metadata);
+  return summary ? `${summary}\n${owners}` : owners;
+}
+
+function DependentsBadge({ data }: { data: GroupNodeData }) {
+  if (!data.onShowImpact || !data.dependentCount) {
+    return null;
+  }
+  return (
+    <div
+      onClick={(e) => {
+        e.stopPropagation();
+        data.onShowImpact?.();
+      }}
+      title={`${data.dependentCount} plugins depend on this one directly - show everything that depends on it`}
+      style={{
+        height: '18px',
+        padding: '0 4px',
+        borderRadius: '4px',
+        background: data.isImpactRoot
+          ? 'var(--vscode-button-background, #0e639c)'
+          : 'var(--vscode-button-secondaryBackground, #3a3d41)',
+        display: 'flex',
+        alignItems: 'center',
+        fontSize: '10px',
+        color: data.isImpactRoot
+          ? 'var(--vscode-button-foreground, #ffffff)'
+          : 'var(--vscode-button-secondaryForeground, #cccccc)',
+        cursor: 'pointer',
+        flexShrink: 0,
+        textTransform: 'none',
+      }}
+    >
+      ↑{data.dependentCount}
+    </div>
+  );
+}
+
+function PublicApiButton({ data }: { data: GroupNodeData }) {
+  if (!data.onShowPublicApi) {
+    return null;
+  }
+  return (
+    <div
+      onClick={(e) => {
+        e.stopPropagation();
+        data.onShowPublicApi?.();
+      }}
+      title="Show which exports of this plugin other plugins import, and which are unused"
+      style={{
+        height: '18px',
+        padding: '0 4px',
+        borderRadius: '4px',
+        background: data.isPublicApiRoot
+          ? 'var(--vscode-button-background, #0e639c)'
+          : 'var(--vscode-button-secondaryBackground, #3a3d41)',
+        display: 'flex',
+        alignItems: 'center',
+        fontSize: '10px',
+        color: data.isPublicApiRoot
+          ? 'var(--vscode-button-foreground, #ffffff)'
+          : 'var(--vscode-button-secondaryForeground, #cccccc)',
+        cursor: 'pointer',
+        flexShrink: 0,
+        textTransform: 'none',
+      }}
+    >
+      API
+    </div>
+  );
+}
+
+function PinButton({ data }: { data: GroupNodeData }) {
+  if (!data.onTogglePin) {
+    return null;
+  }
+  return (
+    <div
+      onClick={(e) => {
+        e.stopPropagation();
+        data.onTogglePin?.();
+      }}
+      title={
+        data.isPinned
+          ? 'Pinned - layouts keep this plugin here. Click to unpin'
+          : 'Pin this plugin where it is, so layouts leave it in place'
+      }
+      style={{
+        height: '18px',
+        padding: '0 4px',
+        borderRadius: '4px',
+        background: data.isPinned
+          ? 'var(--vscode-button-background, #0e639c)'
+          : 'var(--vscode-button-secondaryBackground, #3a3d41)',
+        display: 'flex',
+        alignItems: 'center',
+        fontSize: '10px',
+        cursor: 'pointer',
+        flexShrink: 0,
+        opacity: data.isPinned ? 1 : 0.6,
+      }}
+    >
+      📌
+    </div>
+  );
+}
+
+// Marks type-only imports and non-static import forms in the import analysis popup
+const importTagStyle: React.CSSProperties = {
+  marginLeft: '6px',
+  padding: '0 4px',
+  borderRadius: '3px',
+  fontSize: '9px',
+  fontWeight: 400,
+  background: 'var(--vscode-badge-background, #4d4d4d)',
+  color: 'var(--vscode-badge-foreground, #ffffff)',
+};
+
+// A line number in the import analysis popup that opens the importing file there
+const lineLinkStyle: React.CSSProperties = {
+  color: 'var(--vscode-textLink-foreground, #3794ff)',
+  cursor: 'pointer',
+};
+
+function describeImportUsage(imp: ImportedExport): string {
+  const files = imp.usages?.length ?? 1;
+  const refs = imp.usageCount ?? 0;
+  return `${files} ${files === 1 ? 'file' : 'files'} · ${refs} ${refs === 1 ? 'ref' : 'refs'}`;
+}
+
 const handleStyle = {
   background: 'var(--vscode-editorLineNumber-foreground, #5a5a5a)',
   width: 6,
@@ -39,6 +185,7 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
   const [isSearching, setIsSearching] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [expandedImport, setExpandedImport] = useState<number | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const isDependency = data.groupType === 'dependency';
   const isEmpty = !data.hasNodes;
@@ -70,6 +217,11 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
     }
   };
 
+  // Indexes refer to the current results - collapse when they are replaced
+  useEffect(() => {
+    setExpandedImport(null);
+  }, [data.importAnalysis]);
+
   // Focus input when search mode is activated
   useEffect(() => {
     if (isSearching && inputRef.current) {
@@ -171,7 +323,9 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
           background: isHovered || isSearching
             ? 'var(--vscode-editor-background, rgba(255, 255, 255, 0.08))'
             : 'var(--vscode-editor-background, rgba(255, 255, 255, 0.03))',
-          border: '1px dashed var(--vscode-panel-border, #3c3c3c)',
+          border: data.accentColor
+            ? `2px solid ${data.accentColor}`
+            : '1px dashed var(--vscode-panel-border, #3c3c3c)',
           width: '100%',
           height: '100%',
           boxSizing: 'border-box',
@@ -179,7 +333,7 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
           flexDirection: 'column',
           alignItems: 'center',
           justifyContent: 'center',
-          gap: '4px',
+          gap: '2px',
           opacity: nodeOpacity,
           transition: 'all 0.2s ease',
           cursor: 'pointer',
@@ -214,6 +368,22 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
         >
           {data.label}
         </div>
+        {describeMetadata(data.metadata) && (
+          <div
+            style={{
+              fontSize: '8px',
+              color: 'var(--vscode-descriptionForeground, #808080)',
+              opacity: 0.8,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+              maxWidth: '100%',
+            }}
+            title={getMetadataTitle(data.metadata)}
+          >
+            {describeMetadata(data.metadata)}
+          </div>
+        )}
 
         {/* Import analysis results */}
         {showImportAnalysis && data.importAnalysis && data.importAnalysis.length > 0 && (
@@ -232,7 +402,7 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
               minWidth: '250px',
               maxWidth: '400px',
               maxHeight: '300px',
-              overflow: 'hidden',
+              overflowY: 'auto',
             }}
             onClick={(e) => e.stopPropagation()}
           >
@@ -293,10 +463,69 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
                   {imp.alias && imp.alias !== imp.name && !imp.isDefault && (
                     <span style={{ color: 'var(--vscode-descriptionForeground)' }}> as {imp.alias}</span>
                   )}
+                  {imp.isTypeOnly && <span style={importTagStyle}>type</span>}
+                  {imp.importKind && imp.importKind !== 'import' && (
+                    <span style={importTagStyle}>{imp.importKind}</span>
+                  )}
                   {/* Source path - where the export is defined */}
-                  <div style={{ fontSize: '9px', color: 'var(--vscode-descriptionForeground)', marginTop: '2px' }}>
+                  <div
+                    style={{ fontSize: '9px', color: 'var(--vscode-descriptionForeground)', marginTop: '2px' }}
+                    title={imp.line ? `${imp.importedIn}:${imp.line}` : imp.importedIn}
+                  >
                     from {imp.sourcePath?.replace(/^@kbn\/[^/]+\/?/, '') || '...'}
                   </div>
+                  {/* Usage summary - expands into every importing file and referencing line */}
+                  {imp.usages && imp.usages.length > 0 && (
+                    <div
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExpandedImport(expandedImport === idx ? null : idx);
+                      }}
+                      style={{ fontSize: '9px', color: 'var(--vscode-descriptionForeground)', marginTop: '2px', cursor: 'pointer' }}
+                      title="Show where it is imported and used"
+                    >
+                      {expandedImport === idx ? '▾' : '▸'} {describeImportUsage(imp)}
+                    </div>
+                  )}
+                  {expandedImport === idx &&
+                    imp.usages?.map((usage) => (
+                      <div
+                        key={`${usage.filePath}:${usage.line}`}
+                        style={{ fontSize: '9px', padding: '2px 0 2px 10px', overflowWrap: 'anywhere' }}
+                      >
+                        <span
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            data.onOpenImportUsage?.(usage.filePath, usage.line);
+                          }}
+                          style={lineLinkStyle}
+                          title={`Open ${usage.importedIn} at the import`}
+                        >
+                          {usage.importedIn}:{usage.line}
+                        </span>
+                        {usage.isTypeOnly && !imp.isTypeOnly && <span style={importTagStyle}>type</span>}
+                        {usage.referenceLines.length > 0 && (
+                          <span style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                            {' '}used on{' '}
+                            {usage.referenceLines.map((line, lineIdx) => (
+                              <React.Fragment key={line}>
+                                {lineIdx > 0 && ', '}
+                                <span
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    data.onOpenImportUsage?.(usage.filePath, line);
+                                  }}
+                                  style={lineLinkStyle}
+                                  title={`Open ${usage.importedIn}:${line}`}
+                                >
+                                  {line}
+                                </span>
+                              </React.Fragment>
+                            ))}
+                          </span>
+                        )}
+                      </div>
+                    ))}
                 </div>
               ))}
             </div>
@@ -417,6 +646,9 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
           </div>
         ) : (
           <div style={{ display: 'flex', gap: '4px' }}>
+            <PinButton data={data} />
+            <DependentsBadge data={data} />
+            <PublicApiButton data={data} />
             {/* Show imports button - only in Plugin mode for dependency groups */}
             {data.parentPluginId && data.onAnalyzeImports && (
               <div
@@ -473,7 +705,7 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
         padding: '8px',
         borderRadius: '12px',
         background: 'var(--vscode-editor-background, rgba(255, 255, 255, 0.05))',
-        border: '2px dashed var(--vscode-panel-border, #3c3c3c)',
+        border: `2px ${data.accentColor ? 'solid' : 'dashed'} ${data.accentColor || 'var(--vscode-panel-border, #3c3c3c)'}`,
         width: '100%',
         height: '100%',
         boxSizing: 'border-box',
@@ -534,6 +766,9 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
                   title="TypeScript is loading..."
                 />
               )}
+              <PinButton data={data} />
+              <DependentsBadge data={data} />
+              <PublicApiButton data={data} />
               {/* Plus button to add files */}
               {!isSearching && (
                 <div
@@ -559,19 +794,28 @@ export const GroupNode = memo(({ data }: GroupNodeProps) => {
               </div>
           </div>
         </div>
-        {data.pluginPath && (
+        {(data.pluginPath || data.metadata) && (
           <div
             style={{
+              display: 'flex',
+              gap: '8px',
               fontSize: '9px',
               color: 'var(--vscode-descriptionForeground, #808080)',
               marginTop: '4px',
-              overflow: 'hidden',
-              textOverflow: 'ellipsis',
-              whiteSpace: 'nowrap',
             }}
-            title={data.pluginPath}
           >
-            {data.pluginPath}
+            <span
+              style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              title={data.pluginPath}
+            >
+              {data.pluginPath}
+            </span>
+            {/* Manifest metadata - owners are in the tooltip to keep the header to one line */}
+            {data.metadata && (
+              <span style={{ flexShrink: 0, whiteSpace: 'nowrap' }} title={getMetadataTitle(data.metadata)}>
+                {describeMetadata(data.metadata) || 'ⓘ'}
+              </span>
+            )}
           </div>
         )}
         {/* Search input for full group */}
@@ -0,0 +1,124 @@
+import React, { memo, useState } from 'react';
+import { PluginInfoForWebview } from '../../types';
+import { PluginImpact } from '../utils/pluginImpact';
+
+interface ImpactPanelProps {
+  impact: PluginImpact;
+  plugins: PluginInfoForWebview[];
+  onSelectPlugin: (runtimeId: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const IMPACT_COLOR = 'var(--vscode-charts-red, #f14c4c)';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+/**
+ * "Blast radius" of a plugin: every plugin that depends on it, grouped by distance.
+ */
+export const ImpactPanel = memo(({ impact, plugins, onSelectPlugin, onExport, onClose }: ImpactPanelProps) => {
+  // Direct dependents start expanded, transitive levels collapsed
+  const [expandedLevels, setExpandedLevels] = useState<Set<number>>(new Set([1]));
+  const packageIds = new Map(plugins.map((p) => [p.runtimeId, p.packageId]));
+  const direct = impact.levels[0]?.pluginIds.length ?? 0;
+
+  const toggleLevel = (distance: number) => {
+    setExpandedLevels((prev) => {
+      const next = new Set(prev);
+      if (next.has(distance)) {
+        next.delete(distance);
+      } else {
+        next.add(distance);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div
+      style={{
+        width: '280px',
+        maxHeight: '60vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '6px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+        color: 'var(--vscode-foreground)',
+        fontSize: '11px',
+        fontFamily: 'var(--vscode-font-family)',
+      }}
+    >
+      <div style={{ padding: '8px 10px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span
+            style={{ flex: 1, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={packageIds.get(impact.pluginId) || impact.pluginId}
+          >
+            Impact of {packageIds.get(impact.pluginId) || impact.pluginId}
+          </span>
+          <button onClick={onExport} disabled={impact.total === 0} style={buttonStyle} title="Open the list as Markdown">
+            Export
+          </button>
+          <button onClick={onClose} style={{ ...buttonStyle, padding: '2px 6px' }} title="Close">
+            ×
+          </button>
+        </div>
+        <div style={{ marginTop: '4px', color: 'var(--vscode-descriptionForeground)' }}>
+          {impact.total === 0
+            ? 'No plugins depend on this one'
+            : `${impact.total} dependents · ${direct} direct · ${impact.total - direct} transitive`}
+        </div>
+      </div>
+
+      <div style={{ overflowY: 'auto', padding: '4px 0' }}>
+        {impact.levels.map((level) => {
+          const isExpanded = expandedLevels.has(level.distance);
+          return (
+            <div key={level.distance}>
+              <div
+                onClick={() => toggleLevel(level.distance)}
+                style={{ display: 'flex', padding: '3px 10px', cursor: 'pointer', fontWeight: 600 }}
+              >
+                <span style={{ flex: 1 }}>
+                  {isExpanded ? '▾' : '▸'} {level.distance === 1 ? 'Direct' : `Distance ${level.distance}`}
+                </span>
+                <span style={{ color: 'var(--vscode-descriptionForeground)' }}>{level.pluginIds.length}</span>
+              </div>
+              {isExpanded &&
+                level.pluginIds.map((runtimeId) => (
+                  <div
+                    key={runtimeId}
+                    onClick={() => onSelectPlugin(runtimeId)}
+                    title={`${runtimeId} - click to show in graph`}
+                    style={{
+                      padding: '2px 10px 2px 24px',
+                      cursor: 'pointer',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {packageIds.get(runtimeId) || runtimeId}
+                  </div>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+ImpactPanel.displayName = 'ImpactPanel';
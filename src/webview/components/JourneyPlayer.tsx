@@ -0,0 +1,218 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { JourneyStep } from '../../types';
+
+interface JourneyPlayerProps {
+  steps: JourneyStep[];
+  onStepChange: (step: JourneyStep) => void;
+  onOpenStep: (step: JourneyStep) => void;
+  onClose: () => void;
+}
+
+const SPEEDS: { label: string; delayMs: number }[] = [
+  { label: '0.5×', delayMs: 3000 },
+  { label: '1×', delayMs: 1500 },
+  { label: '2×', delayMs: 750 },
+  { label: '4×', delayMs: 375 },
+];
+
+const controlButtonStyle: React.CSSProperties = {
+  width: '26px',
+  height: '24px',
+  padding: 0,
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontFamily: 'var(--vscode-font-family)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+};
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+/**
+ * Playback bar for the recorded journey. Steps forward/backward through the journey log
+ * and reports the current step so the graph can highlight its target node and edge.
+ */
+export const JourneyPlayer = memo(
+  ({ steps, onStepChange, onOpenStep, onClose }: JourneyPlayerProps) => {
+    const [stepIndex, setStepIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speedIndex, setSpeedIndex] = useState(1);
+    const [openFiles, setOpenFiles] = useState(false);
+
+    const lastIndex = steps.length - 1;
+    const currentIndex = Math.min(stepIndex, lastIndex);
+    const step = steps[currentIndex];
+
+    // The callbacks change with every graph update, which mustn't count as a step change
+    const stepRef = useRef(step);
+    const onStepChangeRef = useRef(onStepChange);
+    const onOpenStepRef = useRef(onOpenStep);
+    stepRef.current = step;
+    onStepChangeRef.current = onStepChange;
+    onOpenStepRef.current = onOpenStep;
+
+    // Report every step change, and open the step's file when following along in the editor
+    useEffect(() => {
+      const current = stepRef.current;
+      if (!current) {
+        return;
+      }
+      onStepChangeRef.current(current);
+      if (openFiles) {
+        onOpenStepRef.current(current);
+      }
+    }, [currentIndex, openFiles]);
+
+    // Advance while playing and stop at the last step
+    useEffect(() => {
+      if (!isPlaying) {
+        return;
+      }
+      if (currentIndex >= lastIndex) {
+        setIsPlaying(false);
+        return;
+      }
+      const timeout = setTimeout(() => setStepIndex(currentIndex + 1), SPEEDS[speedIndex].delayMs);
+      return () => clearTimeout(timeout);
+    }, [isPlaying, currentIndex, lastIndex, speedIndex]);
+
+    if (!step) {
+      return null;
+    }
+
+    const togglePlay = () => {
+      if (!isPlaying && currentIndex >= lastIndex) {
+        // Restart from the beginning when play is pressed at the end
+        setStepIndex(0);
+      }
+      setIsPlaying(!isPlaying);
+    };
+
+    return (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+          padding: '8px 10px',
+          minWidth: '360px',
+          maxWidth: '520px',
+          background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+          border: '1px solid var(--vscode-panel-border)',
+          borderRadius: '6px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+          fontFamily: 'var(--vscode-font-family)',
+          fontSize: '12px',
+          color: 'var(--vscode-foreground)',
+        }}
+      >
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+          <button
+            onClick={() => setStepIndex(0)}
+            disabled={currentIndex === 0}
+            style={controlButtonStyle}
+            title="First step"
+          >
+            ⏮
+          </button>
+          <button
+            onClick={() => setStepIndex(Math.max(0, currentIndex - 1))}
+            disabled={currentIndex === 0}
+            style={controlButtonStyle}
+            title="Previous step"
+          >
+            ◀
+          </button>
+          <button
+            onClick={togglePlay}
+            style={{
+              ...controlButtonStyle,
+              background: 'var(--vscode-button-background)',
+              color: 'var(--vscode-button-foreground)',
+            }}
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <button
+            onClick={() => setStepIndex(Math.min(lastIndex, currentIndex + 1))}
+            disabled={currentIndex >= lastIndex}
+            style={controlButtonStyle}
+            title="Next step"
+          >
+            ▶▶
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={lastIndex}
+            value={currentIndex}
+            onChange={(e) => setStepIndex(Number(e.target.value))}
+            style={{ flex: 1, minWidth: '60px' }}
+            title="Scrub through the journey"
+          />
+          <span style={{ minWidth: '52px', textAlign: 'right', color: 'var(--vscode-descriptionForeground)' }}>
+            {currentIndex + 1} / {steps.length}
+          </span>
+          <select
+            value={speedIndex}
+            onChange={(e) => setSpeedIndex(Number(e.target.value))}
+            title="Playback speed"
+            style={{
+              padding: '2px 4px',
+              background: 'var(--vscode-dropdown-background)',
+              color: 'var(--vscode-dropdown-foreground)',
+              border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))',
+              borderRadius: '4px',
+              fontSize: '11px',
+              fontFamily: 'var(--vscode-font-family)',
+            }}
+          >
+            {SPEEDS.map((speed, index) => (
+              <option key={speed.label} value={index}>
+                {speed.label}
+              </option>
+            ))}
+          </select>
+          <button onClick={onClose} style={controlButtonStyle} title="Close replay">
+            ×
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <div
+            style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={`${step.sourcePath} → ${step.targetPath}`}
+          >
+            {step.containingSymbol ? `${step.containingSymbol.name} in ` : ''}
+            {getFileName(step.sourcePath)}
+            {' → '}
+            <strong>{getFileName(step.targetPath)}</strong>
+            {step.symbol && (
+              <span style={{ color: 'var(--vscode-descriptionForeground)' }}> via {step.symbol.name}</span>
+            )}
+          </div>
+          <span style={{ color: 'var(--vscode-descriptionForeground)', whiteSpace: 'nowrap' }}>
+            {new Date(step.timestamp).toLocaleTimeString()}
+          </span>
+          <label
+            style={{ display: 'flex', gap: '4px', alignItems: 'center', whiteSpace: 'nowrap', cursor: 'pointer' }}
+            title="Open each file in the editor as the journey plays"
+          >
+            <input type="checkbox" checked={openFiles} onChange={(e) => setOpenFiles(e.target.checked)} />
+            Open files
+          </label>
+        </div>
+      </div>
+    );
+  }
+);
+
+JourneyPlayer.displayName = 'JourneyPlayer';
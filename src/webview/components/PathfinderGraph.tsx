@@ -13,21 +13,38 @@ import {
   BackgroundVariant,
   MarkerType,
   ReactFlowInstance,
+  Viewport,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import {
-  forceSimulation,
-  forceLink,
-  forceManyBody,
-  forceCenter,
-  forceCollide,
-  SimulationNodeDatum,
-  SimulationLinkDatum,
-} from 'd3-force';
-import { FileNode as FileNodeType, NavigationEdge, GroupNode as GroupNodeType, FileSearchResult, ViewMode, PluginInfoForWebview, ImportedExport } from '../../types';
+import { FileNode as FileNodeType, NavigationEdge, GroupNode as GroupNodeType, FileSearchResult, ViewMode, PluginInfoForWebview, ImportedExport, DiagramFormat, JourneyStep, DependencyKind, PluginMetadata, PublicApiReport, DependencyAuditFinding, BoundaryViolation, FileImport, FileExpandDirection, CallHierarchyDirection, SymbolInfo, GraphLayout, GraphState, CompleteLayoutCache, PinnedPositions } from '../../types';
 import { FileNode } from './FileNode';
 import { GroupNode } from './GroupNode';
+import { ClusterNode } from './ClusterNode';
+import { JourneyPlayer } from './JourneyPlayer';
+import { DependencyLegend, DEPENDENCY_KIND_STYLES, DEPENDENCY_AUDIT_STYLES } from './DependencyLegend';
+import { PluginMetadataPanel, MetadataFilter } from './PluginMetadataPanel';
+import { CyclePanel, CYCLE_COLOR } from './CyclePanel';
+import { DependencyPathFinder, PATH_COLOR } from './DependencyPathFinder';
+import { ImpactPanel, IMPACT_COLOR } from './ImpactPanel';
+import { PublicApiPanel } from './PublicApiPanel';
+import { BoundaryPanel, BOUNDARY_COLOR } from './BoundaryPanel';
+import { PluginFilterPanel } from './PluginFilterPanel';
 import { resolveCollisions } from '../utils/resolveCollisions';
+import { renderDiagram } from '../utils/diagramExport';
+import { calculateLayeredLayout, calculateRadialLayout, LayoutNode, LayoutEdge } from '../utils/graphLayouts';
+import { calculateForceDirectedLayout, getForceLayoutCacheKey, runForceLayoutInWorker } from '../utils/forceLayout';
+import { aggregateClusterEdges, buildPluginClusters, ClusterBy } from '../utils/pluginClusters';
+import { EMPTY_PLUGIN_FILTER, filterPlugins, isPluginFilterActive, PluginFilter } from '../utils/pluginFilter';
+import { getPluginDependencies, getDependencyIds } from '../../pluginDependencies';
+import { DependencyCycle } from '../../pluginCycles';
+import {
+  MetadataField,
+  getMetadataValues,
+  getDistinctMetadataValues,
+  buildMetadataColorScale,
+} from '../utils/pluginMetadata';
+import { DependencyPathQuery } from '../utils/dependencyPaths';
+import { buildDependentsMap, findPluginImpact, formatImpactReport } from '../utils/pluginImpact';
 
 // Calculate optimal handles based on relative node positions
 function calculateHandles(
@@ -79,127 +96,53 @@ function calculateHandles(
   return { sourceHandle, targetHandle };
 }
 
-// Force-directed layout calculation using d3-force (optimizes for shortest edges)
-interface ForceNode extends SimulationNodeDatum {
-  id: string;
-  width: number;
-  height: number;
-}
-
-interface ForceLink extends SimulationLinkDatum<ForceNode> {
-  source: string | ForceNode;
-  target: string | ForceNode;
+/**
+ * Group positions for a layout, or null for 'manual' (groups stay where they are).
+ * Nodes with a fixed position keep it in every layout.
+ */
+function calculateGroupLayout(
+  layout: GraphLayout,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  focusId?: string
+): Map<string, { x: number; y: number }> | null {
+  switch (layout) {
+    case 'force':
+      // The simulation fixes pinned nodes itself, so the others settle around them
+      return calculateForceDirectedLayout(nodes, edges);
+    case 'layered':
+      return withPinnedPositions(calculateLayeredLayout(nodes, edges), nodes);
+    case 'radial':
+      return withPinnedPositions(calculateRadialLayout(nodes, edges, focusId), nodes);
+    default:
+      return null;
+  }
 }
 
-function calculateForceDirectedLayout(
-  nodes: { id: string; width: number; height: number }[],
-  edges: { source: string; target: string }[]
+function withPinnedPositions(
+  positions: Map<string, { x: number; y: number }>,
+  nodes: LayoutNode[]
 ): Map<string, { x: number; y: number }> {
-  const positions = new Map<string, { x: number; y: number }>();
-  
-  if (nodes.length === 0) {
-    return positions;
-  }
-
-  // For large graphs, use a grid-based initial layout for stability
-  const numNodes = nodes.length;
-  const cols = Math.ceil(Math.sqrt(numNodes));
-  const spacing = 350; // Larger initial spacing
-  const centerX = 4000;
-  const centerY = 4000;
-  const startX = centerX - (cols * spacing) / 2;
-  const startY = centerY - (Math.ceil(numNodes / cols) * spacing) / 2;
-
-  // Create node objects for d3-force with grid-based initial positions
-  const forceNodes: ForceNode[] = nodes.map((node, index) => {
-    const col = index % cols;
-    const row = Math.floor(index / cols);
-    return {
-      id: node.id,
-      width: node.width,
-      height: node.height,
-      x: startX + col * spacing,
-      y: startY + row * spacing,
-    };
-  });
-
-  // Create a map for quick node lookup
-  const nodeMap = new Map(forceNodes.map((n) => [n.id, n]));
-
-  // Create edge objects for d3-force (only for edges where both nodes exist)
-  const forceLinks: ForceLink[] = edges
-    .filter((edge) => nodeMap.has(edge.source) && nodeMap.has(edge.target))
-    .map((edge) => ({
-      source: edge.source,
-      target: edge.target,
-    }));
-
-  // Adjust parameters based on graph size for stability
-  const isLargeGraph = numNodes > 100;
-  const linkDistanceVal = isLargeGraph ? 200 : 150; // Longer = more spread out
-  const linkStrengthVal = isLargeGraph ? 0.3 : 0.5; // Lower = less clustering
-  const chargeStrengthVal = isLargeGraph ? -400 : -300; // Stronger repulsion to prevent overlap
-  const iterationCount = isLargeGraph ? 300 : 300;
-  
-  // Calculate collision radius based on node size plus padding
-  const getCollisionRadius = (d: ForceNode) => Math.max(d.width, d.height) / 2 + 40;
-
-  // Create and run the force simulation
-  const simulation = forceSimulation<ForceNode>(forceNodes)
-    // Link force: pulls connected nodes together (like springs)
-    // This is the key force for minimizing edge lengths
-    .force(
-      'link',
-      forceLink<ForceNode, ForceLink>(forceLinks)
-        .id((d) => d.id)
-        .distance(linkDistanceVal) // Target edge length
-        .strength(linkStrengthVal) // How strongly edges pull nodes together
-    )
-    // Repulsion force: pushes all nodes apart to prevent overlap
-    .force(
-      'charge',
-      forceManyBody<ForceNode>()
-        .strength(chargeStrengthVal) // Negative = repulsion (stronger now)
-        .distanceMax(800) // Increased range of repulsion
-    )
-    // Centering force: keeps the graph centered
-    .force('center', forceCenter(centerX, centerY))
-    // Collision force: prevents node overlap (stronger now)
-    .force(
-      'collide',
-      forceCollide<ForceNode>()
-        .radius(getCollisionRadius) // Larger collision radius
-        .strength(1.0) // Full strength collision detection
-        .iterations(3) // Multiple collision iterations per tick for better separation
-    )
-    // Configure alpha decay for smoother convergence
-    .alphaDecay(0.015) // Slower decay = more iterations to settle
-    .velocityDecay(0.25) // Less damping = nodes can move more freely
-    // Stop the simulation to run manually
-    .stop();
-
-  // Run the simulation synchronously
-  for (let i = 0; i < iterationCount; i++) {
-    simulation.tick();
-  }
-
-  // Extract final positions (convert from center to top-left)
-  forceNodes.forEach((node) => {
-    if (typeof node.x === 'number' && typeof node.y === 'number') {
-      positions.set(node.id, {
-        x: Math.round(node.x - node.width / 2),
-        y: Math.round(node.y - node.height / 2),
-      });
+  for (const node of nodes) {
+    if (node.fixed) {
+      positions.set(node.id, node.fixed);
     }
-  });
-
+  }
   return positions;
 }
 
+const LAYOUT_OPTIONS: { layout: GraphLayout; label: string; description: string }[] = [
+  { layout: 'manual', label: 'Manual', description: 'Keep groups where they were placed or dragged to' },
+  { layout: 'force', label: 'Force', description: 'Connected plugins pull together' },
+  { layout: 'layered', label: 'Layered', description: 'Plugins above their dependencies - core at the bottom, solutions at the top' },
+  { layout: 'radial', label: 'Radial', description: 'Rings of dependency hops around a focused plugin' },
+];
+
 interface PathfinderGraphProps {
   nodes: FileNodeType[];
   edges: NavigationEdge[];
   groups: GroupNodeType[];
+  journey: JourneyStep[];
   highlightedNodeId: string | null;
   activeNodeId: string | null;
   searchResults: { [pluginId: string]: FileSearchResult[] };
@@ -209,30 +152,86 @@ interface PathfinderGraphProps {
   analyzingImports: string | null;
   openImportAnalysisPopup: string | null;
   loadingPlugins: Set<string>;
+  hiddenDependencyKinds: Set<DependencyKind>;
+  onToggleDependencyKind: (kind: DependencyKind) => void;
+  dependencyCycles: DependencyCycle[];
+  selectedCycle: DependencyCycle | null;
+  onSelectCycle: (cycleId: string | null) => void;
+  dependencyPathQuery: DependencyPathQuery | null;
+  dependencyPaths: string[][];
+  onDependencyPathQueryChange: (query: DependencyPathQuery | null) => void;
   onNodeClick: (filePath: string) => void;
   onNodeDelete: (nodeId: string, filePath: string) => void;
   onClear: () => void;
   onStateChange: (nodes: FileNodeType[], edges: NavigationEdge[]) => void;
-  onGroupsChange: (groups: GroupNodeType[]) => void;
+  onGroupsChange: (groups: GroupNodeType[], pins?: NonNullable<GraphState['pins']>) => void;
   onSearchFiles: (pluginId: string, query: string) => void;
   onOpenPluginIndex: (pluginId: string) => void;
   onModeChange: (mode: ViewMode) => void;
   onAnalyzeImports: (mainPluginId: string, dependencyPluginId: string) => void;
   onToggleImportAnalysis: (dependencyLabel: string | null) => void;
   onOpenImportSource: (importPath: string, symbolName: string) => void;
+  onOpenImportUsage: (filePath: string, line: number) => void;
+  publicApiPluginId: string | null; // Plugin whose public API panel is open
+  publicApiReport: PublicApiReport | null;
+  isAnalyzingPublicApi: boolean;
+  onShowPublicApi: (pluginId: string | null) => void;
+  dependencyAudit: DependencyAuditFinding[]; // From the "Audit Plugin Dependencies" command
+  boundaryCheck: { pluginIds: string[]; violations: BoundaryViolation[] } | null; // Last import boundary check
+  isCheckingBoundaries: boolean;
+  onCheckBoundaries: (pluginIds: string[]) => void;
+  fileImports: FileImport[]; // Static imports among the file nodes, for the Journey mode overlay
+  onRequestFileImports: (filePaths: string[]) => void;
+  onExpandFileNode: (filePath: string, direction: FileExpandDirection) => void;
+  onExpandCallHierarchy: (symbol: SymbolInfo, direction: CallHierarchyDirection) => void;
+  layouts: NonNullable<GraphState['layouts']>; // Chosen layout per view mode
+  onLayoutChange: (mode: 'plugin' | 'complete', layout: GraphLayout) => void;
+  pins: NonNullable<GraphState['pins']>; // Pinned group positions per view mode
+  onPinsChange: (mode: 'plugin' | 'complete', pins: PinnedPositions) => void;
+  completeLayoutCache: CompleteLayoutCache | null; // Last finished Complete mode force layout
+  onSaveCompleteLayout: (cache: CompleteLayoutCache) => void;
+  onExportDiagram: (format: DiagramFormat, content: string) => void;
+  onExportImpactReport: (content: string) => void;
+  onOpenJourneyStep: (step: JourneyStep) => void;
 }
 
+// Static import overlay in Journey mode - dashed and still, unlike the animated navigation edges
+const IMPORT_EDGE_COLOR = 'var(--vscode-charts-green, #89d185)';
+// Calls added from the call hierarchy - solid and still, labeled with the functions involved
+const CALL_EDGE_COLOR = 'var(--vscode-charts-purple, #b180d7)';
+
+// Below this zoom, Complete mode collapses plugins into clusters
+const CLUSTER_ZOOM_THRESHOLD = 0.3;
+
+const CLUSTER_OPTIONS: { clusterBy: ClusterBy | null; label: string }[] = [
+  { clusterBy: 'directory', label: 'Cluster by directory' },
+  { clusterBy: 'group', label: 'Cluster by manifest group' },
+  { clusterBy: null, label: 'No clusters' },
+];
+
+const layoutSelectStyle: React.CSSProperties = {
+  padding: '5px 6px',
+  background: 'var(--vscode-dropdown-background)',
+  color: 'var(--vscode-dropdown-foreground)',
+  border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))',
+  borderRadius: '4px',
+  fontSize: '12px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
 // Custom node types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const nodeTypes: any = {
   fileNode: FileNode,
   groupNode: GroupNode,
+  clusterNode: ClusterNode,
 };
 
 export function PathfinderGraph({
   nodes: inputNodes,
   edges: inputEdges,
   groups: inputGroups,
+  journey,
   highlightedNodeId,
   activeNodeId,
   searchResults,
@@ -241,6 +240,14 @@ export function PathfinderGraph({
   importAnalysis,
   analyzingImports,
   loadingPlugins,
+  hiddenDependencyKinds,
+  onToggleDependencyKind,
+  dependencyCycles,
+  selectedCycle,
+  onSelectCycle,
+  dependencyPathQuery,
+  dependencyPaths,
+  onDependencyPathQueryChange,
   onNodeClick,
   onNodeDelete,
   onClear,
@@ -253,9 +260,186 @@ export function PathfinderGraph({
   openImportAnalysisPopup,
   onToggleImportAnalysis,
   onOpenImportSource,
+  onOpenImportUsage,
+  publicApiPluginId,
+  publicApiReport,
+  isAnalyzingPublicApi,
+  onShowPublicApi,
+  dependencyAudit,
+  boundaryCheck,
+  isCheckingBoundaries,
+  onCheckBoundaries,
+  fileImports,
+  onRequestFileImports,
+  onExpandFileNode,
+  onExpandCallHierarchy,
+  layouts,
+  onLayoutChange,
+  pins,
+  onPinsChange,
+  completeLayoutCache,
+  onSaveCompleteLayout,
+  onExportDiagram,
+  onExportImpactReport,
+  onOpenJourneyStep,
 }: PathfinderGraphProps) {
   // Ref to store the React Flow instance for viewport manipulation
   const reactFlowInstance = useRef<ReactFlowInstance | null>(null);
+
+  // Journey replay - while a step is shown, its target is the active node and its edge is highlighted
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [replayStep, setReplayStep] = useState<JourneyStep | null>(null);
+  const displayedActiveNodeId = replayStep ? replayStep.target : activeNodeId;
+  const replayEdgeId = replayStep ? `${replayStep.source}-${replayStep.target}` : null;
+
+  // Groups and dependency edges of the cycle selected in the cycle panel (Complete mode only)
+  const cycleGroupIds = useMemo(
+    () =>
+      new Set(viewMode === 'complete' && selectedCycle ? selectedCycle.pluginIds.map((id) => `group-${id}`) : []),
+    [viewMode, selectedCycle]
+  );
+  const cycleEdgeIds = useMemo(
+    () =>
+      new Set(
+        viewMode === 'complete' && selectedCycle
+          ? selectedCycle.edges.map((edge) => `dep-group-${edge.target}-group-${edge.source}`)
+          : []
+      ),
+    [viewMode, selectedCycle]
+  );
+
+  // Dependency audit results (Plugin mode only): never imported dependencies grey out their edge,
+  // undeclared imports get an edge of their own
+  const unusedEdgeIds = useMemo(
+    () =>
+      new Set(
+        viewMode === 'plugin'
+          ? dependencyAudit
+              .filter((finding) => finding.problem === 'unused')
+              .map((finding) => `dep-group-${finding.dependencyId}-group-${finding.pluginId}`)
+          : []
+      ),
+    [viewMode, dependencyAudit]
+  );
+  const undeclaredEdges = useMemo(
+    (): NavigationEdge[] =>
+      viewMode === 'plugin'
+        ? dependencyAudit
+            .filter((finding) => finding.problem === 'undeclared')
+            .map((finding) => ({
+              id: `undeclared-group-${finding.dependencyId}-group-${finding.pluginId}`,
+              source: `group-${finding.dependencyId}`,
+              target: `group-${finding.pluginId}`,
+              edgeType: 'dependency',
+            }))
+        : [],
+    [viewMode, dependencyAudit]
+  );
+
+  // Cross-environment imports between the plugins shown in Plugin mode, while the boundary panel is open
+  const [isBoundaryPanelOpen, setIsBoundaryPanelOpen] = useState(false);
+  const boundaryViolationCounts = useMemo(() => {
+    const counts = new Map<string, number>(); // "group-dep>group-plugin" -> imports
+    if (viewMode === 'plugin' && isBoundaryPanelOpen && boundaryCheck) {
+      for (const violation of boundaryCheck.violations) {
+        if (violation.dependencyId !== violation.pluginId) {
+          const key = `group-${violation.dependencyId}>group-${violation.pluginId}`;
+          counts.set(key, (counts.get(key) || 0) + 1);
+        }
+      }
+    }
+    return counts;
+  }, [viewMode, isBoundaryPanelOpen, boundaryCheck]);
+
+  // Journey mode overlay of the static imports between the file nodes
+  const [showFileImports, setShowFileImports] = useState(false);
+  const isImportOverlayActive = viewMode === 'journey' && showFileImports;
+  const filePathsFingerprint = useMemo(
+    () => [...new Set(inputNodes.map((n) => n.filePath))].sort().join('\n'),
+    [inputNodes]
+  );
+
+  // Re-resolve whenever files are added to or removed from the graph
+  useEffect(() => {
+    if (isImportOverlayActive && filePathsFingerprint) {
+      onRequestFileImports(filePathsFingerprint.split('\n'));
+    }
+  }, [isImportOverlayActive, filePathsFingerprint, onRequestFileImports]);
+
+  const { importEdges, typeOnlyImportEdgeIds } = useMemo(() => {
+    const edges: NavigationEdge[] = [];
+    const typeOnlyIds = new Set<string>();
+    if (isImportOverlayActive) {
+      const nodeIdsByPath = new Map(inputNodes.map((n) => [n.filePath, n.id]));
+      for (const fileImport of fileImports) {
+        const source = nodeIdsByPath.get(fileImport.source);
+        const target = nodeIdsByPath.get(fileImport.target);
+        if (source && target) {
+          const id = `import-${source}-${target}`;
+          edges.push({ id, source, target, edgeType: 'import' });
+          if (fileImport.isTypeOnly) {
+            typeOnlyIds.add(id);
+          }
+        }
+      }
+    }
+    return { importEdges: edges, typeOnlyImportEdgeIds: typeOnlyIds };
+  }, [isImportOverlayActive, inputNodes, fileImports]);
+
+  // Plugins and edges on the shortest "path between" chains (Complete mode only) - everything else is dimmed
+  const isPathActive = viewMode === 'complete' && dependencyPathQuery !== null;
+  const pathGroupIds = useMemo(() => {
+    if (!isPathActive || !dependencyPathQuery) {
+      return new Set<string>();
+    }
+    const pluginIds = [dependencyPathQuery.from, dependencyPathQuery.to, ...dependencyPaths.flat()];
+    return new Set(pluginIds.map((id) => `group-${id}`));
+  }, [isPathActive, dependencyPathQuery, dependencyPaths]);
+  const pathEdgeIds = useMemo(
+    () =>
+      new Set(
+        isPathActive
+          ? dependencyPaths.flatMap((path) =>
+              path.slice(1).map((dep, index) => `dep-group-${dep}-group-${path[index]}`)
+            )
+          : []
+      ),
+    [isPathActive, dependencyPaths]
+  );
+
+  // Impact ("blast radius") of the plugin whose dependents badge was clicked
+  const [impactPluginId, setImpactPluginId] = useState<string | null>(null);
+  const dependentsMap = useMemo(() => buildDependentsMap(allPlugins), [allPlugins]);
+  const impact = useMemo(
+    () => (impactPluginId ? findPluginImpact(dependentsMap, impactPluginId) : null),
+    [dependentsMap, impactPluginId]
+  );
+  const impactGroupIds = useMemo(
+    () =>
+      new Set(impact ? [impact.pluginId, ...impact.distances.keys()].map((id) => `group-${id}`) : []),
+    [impact]
+  );
+  // Edges along which the change propagates: from a plugin to its dependents one level further out
+  const impactEdgeIds = useMemo(() => {
+    const ids = new Set<string>();
+    if (!impact) {
+      return ids;
+    }
+    for (const plugin of allPlugins) {
+      const distance = impact.distances.get(plugin.runtimeId);
+      if (distance === undefined) {
+        continue;
+      }
+      for (const dep of getDependencyIds(plugin)) {
+        const depDistance = dep === impact.pluginId ? 0 : impact.distances.get(dep);
+        if (depDistance === distance - 1) {
+          ids.add(`dep-group-${dep}-group-${plugin.runtimeId}`);
+        }
+      }
+    }
+    return ids;
+  }, [impact, allPlugins]);
+  const isDimming = isPathActive || impact !== null;
   const prevNodeCountRef = useRef<number>(inputNodes.length);
 
   // Center viewport on new nodes when they're added
@@ -310,7 +494,7 @@ export function PathfinderGraph({
     for (const plugin of allPlugins) {
       const sourceGroupId = `group-${plugin.runtimeId}`;
       
-      for (const depRuntimeId of plugin.requiredPlugins) {
+      for (const { pluginId: depRuntimeId, kind } of getPluginDependencies(plugin)) {
         const targetGroupId = `group-${depRuntimeId}`;
         const edgeId = `dep-${targetGroupId}-${sourceGroupId}`;
         
@@ -326,6 +510,7 @@ export function PathfinderGraph({
           source: targetGroupId,
           target: sourceGroupId,
           edgeType: 'dependency',
+          dependencyKind: kind,
         });
       }
     }
@@ -336,17 +521,74 @@ export function PathfinderGraph({
   // State for complete mode groups and loading indicator
   const [completeGroups, setCompleteGroups] = useState<GroupNodeType[]>([]);
   const [isCalculatingLayout, setIsCalculatingLayout] = useState(false);
+  // Share of the force simulation done while the worker runs it, null otherwise
+  const [layoutProgress, setLayoutProgress] = useState<number | null>(null);
   
   // State for plugin search in Complete mode
   const [pluginSearchQuery, setPluginSearchQuery] = useState('');
   const [isSearchDropdownOpen, setIsSearchDropdownOpen] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
   
+  // Complete mode: color and filter plugins by manifest metadata
+  const [metadataColorBy, setMetadataColorBy] = useState<MetadataField | null>(null);
+  // Semantic zoom: zoomed out Complete mode shows clusters of plugins instead of every plugin
+  const [clusterBy, setClusterBy] = useState<ClusterBy | null>('directory');
+  const [isZoomedOut, setIsZoomedOut] = useState(false);
+  const isClustered = viewMode === 'complete' && clusterBy !== null && isZoomedOut;
+  const [metadataFilter, setMetadataFilter] = useState<MetadataFilter | null>(null);
+
+  // Groups saved before metadata was tracked don't carry it, so look it up by plugin
+  const pluginMetadataByGroupId = useMemo(
+    () => new Map<string, PluginMetadata>(allPlugins.map((p) => [`group-${p.runtimeId}`, p.metadata])),
+    [allPlugins]
+  );
+  const allPluginMetadata = useMemo(() => allPlugins.map((p) => p.metadata), [allPlugins]);
+  const metadataColorScale = useMemo(
+    () =>
+      metadataColorBy
+        ? buildMetadataColorScale(getDistinctMetadataValues(allPluginMetadata, metadataColorBy).map((v) => v.value))
+        : new Map<string, string>(),
+    [allPluginMetadata, metadataColorBy]
+  );
+
   // Track which group has an active file search (for z-index boosting)
   const [activeSearchGroup, setActiveSearchGroup] = useState<string | null>(null);
   
+  // Plugin mode keeps groups where they were placed unless a layout is chosen; Complete mode defaults to force
+  const activeLayout: GraphLayout = viewMode === 'plugin' ? layouts.plugin ?? 'manual' : layouts.complete ?? 'force';
+  const [radialFocusGroupId, setRadialFocusGroupId] = useState<string | null>(null);
+  const radialFocus = activeLayout === 'radial' ? radialFocusGroupId ?? undefined : undefined;
+  // Plugin and Complete mode place groups differently, so each has its own pins
+  const activePins = useMemo<PinnedPositions>(
+    () => (viewMode === 'plugin' || viewMode === 'complete' ? pins[viewMode] ?? {} : {}),
+    [viewMode, pins]
+  );
+  // Bumped whenever a layout moves groups, so the React Flow nodes pick up the new positions
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  // Complete mode filter panel: only the plugins left are shown and laid out
+  const [pluginFilter, setPluginFilter] = useState<PluginFilter>(EMPTY_PLUGIN_FILTER);
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  const isFiltering = isPluginFilterActive(pluginFilter);
+  const visiblePlugins = useMemo(
+    () => (isFiltering ? filterPlugins(allPlugins, pluginFilter) : allPlugins),
+    [isFiltering, allPlugins, pluginFilter]
+  );
+  const visiblePluginGroupIds = useMemo(
+    () => (isFiltering ? new Set(visiblePlugins.map((plugin) => `group-${plugin.runtimeId}`)) : null),
+    [isFiltering, visiblePlugins]
+  );
+
   // Track whether we've already calculated the layout for the current complete mode session
   const hasCalculatedLayoutRef = useRef(false);
+  // The layout (and radial focus and filter) the complete groups were arranged with
+  const completeLayoutKeyRef = useRef('');
+  const completeLayoutKey =
+    viewMode === 'complete'
+      ? `${activeLayout}:${radialFocus ?? ''}:${isFiltering ? JSON.stringify(pluginFilter) : ''}`
+      : '';
+  // The plugin list the current complete groups were built from
+  const layoutPluginsRef = useRef<PluginInfoForWebview[]>([]);
 
   // Reset layout flag when leaving complete mode
   useEffect(() => {
@@ -355,78 +597,153 @@ export function PathfinderGraph({
     }
   }, [viewMode]);
 
-  // Generate groups for complete mode from all plugins with force-directed layout
-  // Only calculate ONCE when entering Complete mode to avoid repositioning on group changes
+  // Generate groups for complete mode from all (filtered) plugins with the chosen layout
+  // Only calculate when entering Complete mode or changing the layout or filter, to avoid repositioning on group changes.
+  // completeGroups covers every plugin - filteredGroups drops the ones that are input groups too
   useEffect(() => {
     if (viewMode !== 'complete' || allPlugins.length === 0) {
       setCompleteGroups([]);
       setIsCalculatingLayout(false);
+      setLayoutProgress(null);
       return;
     }
 
+    // Layout constants for complete mode
+    const GROUP_WIDTH = 240;
+    const GROUP_HEIGHT = 40;
+
+    const toCompleteGroup = (plugin: PluginInfoForWebview, position: { x: number; y: number }): GroupNodeType => ({
+      id: `group-${plugin.runtimeId}`,
+      label: plugin.packageId || plugin.runtimeId,
+      type: 'dependency' as const,
+      position,
+      width: GROUP_WIDTH,
+      height: GROUP_HEIGHT,
+      requiredPlugins: plugin.requiredPlugins,
+      optionalPlugins: plugin.optionalPlugins,
+      requiredBundles: plugin.requiredBundles,
+      runtimePluginDependencies: plugin.runtimePluginDependencies,
+      metadata: plugin.metadata,
+    });
+
     // Skip if we've already calculated the layout for this complete mode session
-    if (hasCalculatedLayoutRef.current) {
+    if (hasCalculatedLayoutRef.current && completeLayoutKeyRef.current === completeLayoutKey) {
+      // The plugin list changed on disk - update groups in place instead of re-running the layout
+      if (layoutPluginsRef.current !== visiblePlugins) {
+        layoutPluginsRef.current = visiblePlugins;
+        setCompleteGroups(
+          visiblePlugins.map((plugin) => {
+            const groupId = `group-${plugin.runtimeId}`;
+            // New plugins start next to their first already placed dependency
+            let position = completePositionsRef.current.get(groupId);
+            if (!position) {
+              const anchor = getDependencyIds(plugin)
+                .map((dep) => completePositionsRef.current.get(`group-${dep}`))
+                .find(Boolean);
+              position = anchor ? { x: anchor.x + GROUP_WIDTH + 40, y: anchor.y } : { x: 0, y: 0 };
+            }
+            return toCompleteGroup(plugin, position);
+          })
+        );
+      }
       return;
     }
 
-    // Set loading state
-    setIsCalculatingLayout(true);
+    // Layout ALL plugins the filter leaves (not just those not in inputGroups)
+    // This ensures consistent positioning regardless of which files are open
+    const layoutNodes = visiblePlugins.map((plugin) => ({
+      id: `group-${plugin.runtimeId}`,
+      width: GROUP_WIDTH,
+      height: GROUP_HEIGHT,
+      fixed: activePins[`group-${plugin.runtimeId}`],
+    }));
 
-    // Use setTimeout to allow the UI to update before heavy calculation
-    const timeoutId = setTimeout(() => {
-      // Layout constants for complete mode
-      const GROUP_WIDTH = 240;
-      const GROUP_HEIGHT = 40;
-
-      // Layout ALL plugins (not just those not in inputGroups)
-      // This ensures consistent positioning regardless of which files are open
-      const layoutNodes = allPlugins.map((plugin) => ({
-        id: `group-${plugin.runtimeId}`,
-        width: GROUP_WIDTH,
-        height: GROUP_HEIGHT,
-      }));
-
-      // Prepare edges for force layout
-      const layoutEdges = completeEdges.map((edge) => ({
-        source: edge.source,
-        target: edge.target,
-      }));
+    // Every dependency between the plugins, whether or not its edge is on the graph already,
+    // so the layout (and its cache key) only depends on the plugin graph
+    const pluginIds = new Set(visiblePlugins.map((plugin) => plugin.runtimeId));
+    const layoutEdges = visiblePlugins.flatMap((plugin) =>
+      getDependencyIds(plugin)
+        .filter((dep) => pluginIds.has(dep))
+        .map((dep) => ({ source: `group-${dep}`, target: `group-${plugin.runtimeId}` }))
+    );
 
-      // Calculate force-directed layout on main thread
-      const positions = calculateForceDirectedLayout(layoutNodes, layoutEdges);
-      
+    const applyPositions = (positions: Map<string, { x: number; y: number }>) => {
       // Store ALL positions in the cache for later use
       positions.forEach((pos, id) => {
         completePositionsRef.current.set(id, pos);
       });
+      setCompleteGroups(
+        visiblePlugins.map((plugin) => toCompleteGroup(plugin, positions.get(`group-${plugin.runtimeId}`) || { x: 0, y: 0 }))
+      );
+      setLayoutVersion((version) => version + 1);
+    };
 
-      // Generate groups for plugins NOT already in inputGroups
-      const existingGroupIds = new Set(inputGroups.map((g) => g.id));
-      
-      const groups = allPlugins
-        .filter((plugin) => !existingGroupIds.has(`group-${plugin.runtimeId}`))
-        .map((plugin) => {
-          const groupId = `group-${plugin.runtimeId}`;
-          const position = positions.get(groupId) || { x: 0, y: 0 };
-          
-          return {
-            id: groupId,
-            label: plugin.packageId || plugin.runtimeId,
-            type: 'dependency' as const,
-            position,
-            width: GROUP_WIDTH,
-            height: GROUP_HEIGHT,
-            requiredPlugins: plugin.requiredPlugins,
-          };
-        });
-
-      setCompleteGroups(groups);
+    const finishLayout = (positions: Map<string, { x: number; y: number }>) => {
+      applyPositions(positions);
       setIsCalculatingLayout(false);
+      setLayoutProgress(null);
       hasCalculatedLayoutRef.current = true;
-    }, 150);
+      completeLayoutKeyRef.current = completeLayoutKey;
+      layoutPluginsRef.current = visiblePlugins;
+    };
 
-    return () => clearTimeout(timeoutId);
-  }, [viewMode, allPlugins, completeEdges, inputGroups]);
+    if (activeLayout !== 'force') {
+      setIsCalculatingLayout(true);
+      // Use setTimeout to allow the UI to update before heavy calculation
+      const timeoutId = setTimeout(() => {
+        finishLayout(calculateGroupLayout(activeLayout, layoutNodes, layoutEdges, radialFocus) ?? new Map());
+      }, 150);
+      return () => clearTimeout(timeoutId);
+    }
+
+    // A force layout of the same plugin graph is reused, even from an earlier VS Code session
+    const cacheKey = getForceLayoutCacheKey(layoutNodes, layoutEdges);
+    if (completeLayoutCache?.key === cacheKey) {
+      finishLayout(new Map(Object.entries(completeLayoutCache.positions)));
+      return;
+    }
+
+    // The worker streams positions while the simulation settles, so the graph animates into place.
+    // The cleanup cancels it when leaving Complete mode or switching layouts
+    setIsCalculatingLayout(true);
+    setLayoutProgress(0);
+    let frameId: number | undefined;
+    let latestPositions: Map<string, { x: number; y: number }> | undefined;
+    const cancelLayout = runForceLayoutInWorker(layoutNodes, layoutEdges, {
+      onProgress: (positions, progress) => {
+        latestPositions = positions;
+        setLayoutProgress(progress);
+        // At most one update per frame, however fast the worker reports
+        if (frameId === undefined) {
+          frameId = requestAnimationFrame(() => {
+            frameId = undefined;
+            if (latestPositions) {
+              applyPositions(latestPositions);
+            }
+          });
+        }
+      },
+      onDone: (positions, isFallback) => {
+        if (frameId !== undefined) {
+          cancelAnimationFrame(frameId);
+          frameId = undefined;
+        }
+        finishLayout(positions);
+        // A grid from a failed simulation is recalculated next time instead of being reused.
+        // Filtered layouts aren't cached either, so they don't replace the layout of all plugins
+        if (!isFallback && !isFiltering) {
+          onSaveCompleteLayout({ key: cacheKey, positions: Object.fromEntries(positions) });
+        }
+      },
+    });
+
+    return () => {
+      cancelLayout();
+      if (frameId !== undefined) {
+        cancelAnimationFrame(frameId);
+      }
+    };
+  }, [viewMode, allPlugins, visiblePlugins, isFiltering, activeLayout, radialFocus, completeLayoutKey, completeLayoutCache, onSaveCompleteLayout, activePins]);
 
   // Cache for storing computed positions from complete mode layout
   // This allows us to preserve positions when groups transition from completeGroups to inputGroups
@@ -529,28 +846,59 @@ export function PathfinderGraph({
     }
     if (viewMode === 'complete') {
       // Complete mode: combine existing groups with all plugins
-      // For inputGroups, use cached positions from completeGroups if available
+      // For inputGroups, use pinned or cached positions from completeGroups if available
       const inputGroupIds = new Set(inputGroups.map((g) => g.id));
       const inputGroupsWithPreservedPositions = inputGroups.map((group) => {
-        const cachedPosition = completePositionsRef.current.get(group.id);
+        const cachedPosition = activePins[group.id] ?? completePositionsRef.current.get(group.id);
         if (cachedPosition) {
           return { ...group, position: cachedPosition };
         }
         return group;
       });
       // Filter out completeGroups that are now in inputGroups to avoid duplicates
-      const remainingCompleteGroups = completeGroups.filter(
-        (g) => !inputGroupIds.has(g.id)
-      );
-      const result = [...inputGroupsWithPreservedPositions, ...remainingCompleteGroups];
+      const remainingCompleteGroups = completeGroups
+        .filter((g) => !inputGroupIds.has(g.id))
+        .map((g) => (activePins[g.id] ? { ...g, position: activePins[g.id] } : g));
+      let result = [...inputGroupsWithPreservedPositions, ...remainingCompleteGroups];
+      // Groups with open files always stay visible
+      const groupIdsWithFiles = new Set(inputNodes.map((n) => n.groupId));
+      if (visiblePluginGroupIds) {
+        result = result.filter((g) => groupIdsWithFiles.has(g.id) || visiblePluginGroupIds.has(g.id));
+      }
+      if (metadataFilter) {
+        result = result.filter(
+          (g) =>
+            groupIdsWithFiles.has(g.id) ||
+            getMetadataValues(g.metadata ?? pluginMetadataByGroupId.get(g.id), metadataFilter.field).includes(
+              metadataFilter.value
+            )
+        );
+      }
       console.log('[filteredGroups] Complete mode, returning', result.length, 'groups (input:', inputGroupsWithPreservedPositions.length, '+ complete:', remainingCompleteGroups.length, ')');
       console.log('[filteredGroups] Sample group:', result[0]);
       return result;
     }
-    // Plugin mode: show all existing groups
+    // Plugin mode: show all existing groups, pinned ones where they were pinned
     console.log('[filteredGroups] Plugin mode, returning', inputGroups.length, 'groups');
-    return inputGroups;
-  }, [inputGroups, viewMode, completeGroups]);
+    return inputGroups.map((group) => (activePins[group.id] ? { ...group, position: activePins[group.id] } : group));
+  }, [inputGroups, viewMode, completeGroups, metadataFilter, visiblePluginGroupIds, inputNodes, pluginMetadataByGroupId, activePins]);
+
+  // Pins a group where it currently is, or unpins it
+  const handleTogglePin = useCallback(
+    (group: GroupNodeType) => {
+      if (viewMode !== 'plugin' && viewMode !== 'complete') {
+        return;
+      }
+      const { [group.id]: existing, ...otherPins } = activePins;
+      if (existing) {
+        onPinsChange(viewMode, otherPins);
+      } else {
+        const position = reactFlowInstance.current?.getNode(group.id)?.position ?? group.position;
+        onPinsChange(viewMode, { ...activePins, [group.id]: { x: Math.round(position.x), y: Math.round(position.y) } });
+      }
+    },
+    [viewMode, activePins, onPinsChange]
+  );
 
   // Convert groups to React Flow nodes
   const groupFlowNodes: Node[] = useMemo(
@@ -563,6 +911,7 @@ export function PathfinderGraph({
         // Use compact size for empty dependency groups
         const width = isDependency && isEmpty ? 200 : group.width;
         const height = isDependency && isEmpty ? 50 : group.height;
+        const metadata = group.metadata ?? pluginMetadataByGroupId.get(group.id);
         
         // For dependency groups, find the parent plugin that requires this dependency
         // Extract runtime ID from group ID (format: "group-{runtimeId}")
@@ -572,7 +921,7 @@ export function PathfinderGraph({
         if (isDependency && viewMode === 'plugin') {
           // Find the plugin group that has this as a required plugin
           const parentGroup = filteredGroups.find(
-            (g) => g.type === 'plugin' && g.requiredPlugins?.includes(groupRuntimeId)
+            (g) => g.type === 'plugin' && getDependencyIds(g).includes(groupRuntimeId)
           );
           if (parentGroup) {
             parentPluginId = parentGroup.id.replace('group-', '');
@@ -593,6 +942,16 @@ export function PathfinderGraph({
             onOpenPluginIndex: onOpenPluginIndex,
             isCompleteMode: viewMode === 'complete',
             pluginPath: group.pluginPath,
+            metadata,
+            accentColor: cycleGroupIds.has(group.id)
+              ? CYCLE_COLOR
+              : pathGroupIds.has(group.id)
+              ? PATH_COLOR
+              : impactGroupIds.has(group.id)
+              ? IMPACT_COLOR
+              : viewMode === 'complete' && metadataColorBy
+                ? metadataColorScale.get(getMetadataValues(metadata, metadataColorBy)[0])
+                : undefined,
             isLoading: loadingPlugins.has(group.label),
             // Import analysis props (for dependency groups in plugin mode)
             parentPluginId,
@@ -602,8 +961,19 @@ export function PathfinderGraph({
             showImportAnalysis: openImportAnalysisPopup === group.label,
             onToggleImportAnalysis: isDependency ? onToggleImportAnalysis : undefined,
             onOpenImportSource: isDependency ? onOpenImportSource : undefined,
+            onOpenImportUsage: isDependency ? onOpenImportUsage : undefined,
             // File search z-index boosting
             onSearchActiveChange: (isActive: boolean) => setActiveSearchGroup(isActive ? group.label : null),
+            // Impact analysis
+            dependentCount: dependentsMap.get(groupRuntimeId)?.length ?? 0,
+            isImpactRoot: impactPluginId === groupRuntimeId,
+            onShowImpact: () => setImpactPluginId(impactPluginId === groupRuntimeId ? null : groupRuntimeId),
+            // Reverse import analysis
+            isPublicApiRoot: publicApiPluginId === groupRuntimeId,
+            onShowPublicApi: () => onShowPublicApi(publicApiPluginId === groupRuntimeId ? null : groupRuntimeId),
+            // Pinning (layouts leave pinned groups in place)
+            isPinned: Boolean(activePins[group.id]),
+            onTogglePin: viewMode === 'plugin' || viewMode === 'complete' ? () => handleTogglePin(group) : undefined,
           },
           style: {
             width,
@@ -611,10 +981,12 @@ export function PathfinderGraph({
             // Groups with file nodes should have higher z-index so their children aren't occluded
             // Active search gets highest (5000), popup open next (2000), groups with nodes next (100), empty groups lowest (1)
             zIndex: activeSearchGroup === group.label ? 5000 : openImportAnalysisPopup === group.label ? 2000 : nodesInGroup.length > 0 ? 100 : 1,
+            opacity:
+              (isPathActive && !pathGroupIds.has(group.id)) || (impact && !impactGroupIds.has(group.id)) ? 0.25 : 1,
           },
         };
       }),
-    [filteredGroups, inputNodes, searchResults, onSearchFiles, onNodeClick, onOpenPluginIndex, viewMode, onAnalyzeImports, importAnalysis, analyzingImports, openImportAnalysisPopup, onToggleImportAnalysis, onOpenImportSource, loadingPlugins, activeSearchGroup]
+    [filteredGroups, inputNodes, searchResults, onSearchFiles, onNodeClick, onOpenPluginIndex, viewMode, onAnalyzeImports, importAnalysis, analyzingImports, openImportAnalysisPopup, onToggleImportAnalysis, onOpenImportSource, onOpenImportUsage, loadingPlugins, activeSearchGroup, pluginMetadataByGroupId, metadataColorBy, metadataColorScale, cycleGroupIds, isPathActive, pathGroupIds, dependentsMap, impact, impactGroupIds, impactPluginId, publicApiPluginId, onShowPublicApi, activePins, handleTogglePin]
   );
 
   // Convert file nodes to React Flow nodes
@@ -642,22 +1014,86 @@ export function PathfinderGraph({
             pluginName: node.pluginName,
             symbols: node.symbols,
             sourceSymbols: node.sourceSymbols,
-            isHighlighted: node.id === highlightedNodeId,
-            isActive: node.id === activeNodeId,
+            isHighlighted: node.id === highlightedNodeId || node.id === replayStep?.target,
+            isActive: node.id === displayedActiveNodeId,
             onDelete: () => onNodeDelete(node.id, node.filePath),
             onClick: () => onNodeClick(node.filePath),
+            onExpand: (direction: FileExpandDirection) => {
+              // Show how the added files relate to this one
+              setShowFileImports(true);
+              onExpandFileNode(node.filePath, direction);
+            },
+            onExpandCalls: onExpandCallHierarchy,
           },
         };
       }),
-    [inputNodes, filteredGroups, highlightedNodeId, activeNodeId, onNodeClick, onNodeDelete]
+    [
+      inputNodes,
+      filteredGroups,
+      highlightedNodeId,
+      displayedActiveNodeId,
+      replayStep,
+      onNodeClick,
+      onNodeDelete,
+      onExpandFileNode,
+      onExpandCallHierarchy,
+    ]
   );
 
   // Combine group and file nodes (groups must come first)
+  const pluginsByGroupId = useMemo(
+    () => new Map(allPlugins.map((plugin) => [`group-${plugin.runtimeId}`, plugin])),
+    [allPlugins]
+  );
+
+  const pluginClusters = useMemo(
+    () => (isClustered && clusterBy ? buildPluginClusters(filteredGroups, pluginsByGroupId, clusterBy) : []),
+    [isClustered, clusterBy, filteredGroups, pluginsByGroupId]
+  );
+
+  // Clusters grow with their plugin count and sit on the center of their plugins
+  const clusterFlowNodes: Node[] = useMemo(
+    () =>
+      pluginClusters.map((cluster) => {
+        const width = Math.round(600 + 80 * Math.sqrt(cluster.groupIds.length));
+        const height = Math.round(width * 0.35);
+        // A cluster takes the color-by color when all of its plugins share it
+        const colors = new Set(
+          cluster.groupIds.map((groupId) =>
+            metadataColorBy
+              ? metadataColorScale.get(getMetadataValues(pluginMetadataByGroupId.get(groupId), metadataColorBy)[0])
+              : undefined
+          )
+        );
+        return {
+          id: cluster.id,
+          type: 'clusterNode',
+          position: { x: cluster.center.x - width / 2, y: cluster.center.y - height / 2 },
+          draggable: false,
+          data: {
+            label: cluster.label,
+            pluginCount: cluster.groupIds.length,
+            accentColor: colors.size === 1 ? [...colors][0] : undefined,
+            onExpand: () =>
+              reactFlowInstance.current?.setCenter(cluster.center.x, cluster.center.y, {
+                zoom: CLUSTER_ZOOM_THRESHOLD * 2,
+                duration: 500,
+              }),
+          },
+          style: { width, height },
+        };
+      }),
+    [pluginClusters, metadataColorBy, metadataColorScale, pluginMetadataByGroupId]
+  );
+
   const flowNodes = useMemo(() => {
+    if (isClustered) {
+      return clusterFlowNodes;
+    }
     const result = [...groupFlowNodes, ...fileFlowNodes];
     console.log('[flowNodes] groupFlowNodes:', groupFlowNodes.length, 'fileFlowNodes:', fileFlowNodes.length, 'total:', result.length);
     return result;
-  }, [groupFlowNodes, fileFlowNodes]);
+  }, [groupFlowNodes, fileFlowNodes, isClustered, clusterFlowNodes]);
 
   // Filter edges based on viewMode
   const filteredEdges = useMemo(() => {
@@ -667,20 +1103,24 @@ export function PathfinderGraph({
       ...filteredGroups.map((g) => g.id),
     ]);
 
-    // Helper to check if an edge has valid endpoints
+    // Helper to check if an edge has valid endpoints (and isn't a hidden dependency kind)
     const hasValidEndpoints = (edge: NavigationEdge) => {
+      if (edge.edgeType === 'dependency' && hiddenDependencyKinds.has(edge.dependencyKind ?? 'required')) {
+        return false;
+      }
       return validNodeIds.has(edge.source) && validNodeIds.has(edge.target);
     };
 
     if (viewMode === 'journey') {
-      // Journey mode: only show navigation edges (no dependency edges)
-      return inputEdges.filter((edge) => {
+      // Journey mode: only show navigation edges (no dependency edges), plus the import overlay
+      const navigationEdges = inputEdges.filter((edge) => {
         const isDependencyEdge = 
           edge.edgeType === 'dependency' || 
           edge.id.startsWith('dep-') ||
           (edge.source.startsWith('group-') && edge.target.startsWith('group-'));
         return !isDependencyEdge && hasValidEndpoints(edge);
       });
+      return [...navigationEdges, ...importEdges];
     }
     if (viewMode === 'complete') {
       // Complete mode: combine existing edges with all plugin dependency edges
@@ -697,9 +1137,12 @@ export function PathfinderGraph({
       }
       return uniqueEdges;
     }
-    // Plugin mode: show all existing edges with valid endpoints
-    return inputEdges.filter(hasValidEndpoints);
-  }, [inputEdges, viewMode, completeEdges, inputNodes, filteredGroups]);
+    // Plugin mode: show all existing edges with valid endpoints, plus undeclared imports between shown plugins
+    return [
+      ...inputEdges.filter(hasValidEndpoints),
+      ...undeclaredEdges.filter((edge) => validNodeIds.has(edge.source) && validNodeIds.has(edge.target)),
+    ];
+  }, [inputEdges, viewMode, completeEdges, inputNodes, filteredGroups, hiddenDependencyKinds, undeclaredEdges, importEdges]);
 
   // Convert edges to React Flow edges
   const flowEdges: Edge[] = useMemo(
@@ -738,9 +1181,32 @@ export function PathfinderGraph({
             }
           }
           
-          // Dependency edges: solid, dark grey, pointing from dependency to plugin
+          // Dependency edges point from dependency to plugin; the stroke tells the dependency kind apart
           // In Complete mode, use lower opacity to reduce visual clutter
           const edgeOpacity = viewMode === 'complete' ? 0.2 : 0.6;
+          const dependencyKind = edge.dependencyKind ?? 'required';
+          const kindStyle = DEPENDENCY_KIND_STYLES[dependencyKind];
+          // Edges of the selected cycle keep their dash pattern but stand out in the error color
+          const isCycleEdge = cycleEdgeIds.has(edge.id);
+          const isPathEdge = pathEdgeIds.has(edge.id);
+          const isImpactEdge = impactEdgeIds.has(edge.id);
+          const isHighlighted = isCycleEdge || isPathEdge || isImpactEdge;
+          const auditProblem = edge.id.startsWith('undeclared-')
+            ? 'undeclared'
+            : unusedEdgeIds.has(edge.id)
+            ? 'unused'
+            : undefined;
+          const auditStyle = auditProblem ? DEPENDENCY_AUDIT_STYLES[auditProblem] : undefined;
+          const boundaryViolationCount = boundaryViolationCounts.get(`${edge.source}>${edge.target}`) ?? 0;
+          const stroke = isCycleEdge
+            ? CYCLE_COLOR
+            : isPathEdge
+            ? PATH_COLOR
+            : isImpactEdge
+            ? IMPACT_COLOR
+            : boundaryViolationCount > 0
+            ? BOUNDARY_COLOR
+            : auditStyle?.color ?? kindStyle.color;
           
           return {
             id: edge.id,
@@ -750,15 +1216,26 @@ export function PathfinderGraph({
             targetHandle,
             type: 'default',
             animated: false,
-            className: 'dependency-edge',
+            className: `dependency-edge dependency-edge-${dependencyKind}`,
+            zIndex: isHighlighted ? 1000 : undefined,
+            label: boundaryViolationCount > 0 ? `⚠ ${boundaryViolationCount} cross-boundary` : auditStyle?.label,
+            labelStyle: { fill: stroke, fontSize: 10 },
+            labelBgStyle: { fill: 'var(--vscode-editor-background)' },
             style: { 
-              stroke: '#666666',
-              strokeWidth: 1.5,
-              opacity: edgeOpacity,
+              stroke,
+              strokeWidth: isHighlighted ? 3 : boundaryViolationCount > 0 ? 2.5 : 1.5,
+              strokeDasharray: auditStyle ? auditStyle.dashArray : kindStyle.dashArray,
+              opacity: isHighlighted
+                ? 1
+                : isDimming
+                ? 0.05
+                : boundaryViolationCount > 0 || auditProblem === 'undeclared'
+                ? 0.9
+                : edgeOpacity,
             },
             markerEnd: {
               type: MarkerType.ArrowClosed,
-              color: '#666666',
+              color: stroke,
               width: 12,
               height: 12,
             },
@@ -799,25 +1276,129 @@ export function PathfinderGraph({
           sourceHandle = handles.sourceHandle;
           targetHandle = handles.targetHandle;
         }
-        
+
+        if (edge.edgeType === 'call') {
+          const calls = edge.calls || [];
+          return {
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            sourceHandle,
+            targetHandle,
+            label: calls.length > 1 ? `${calls[0]} +${calls.length - 1}` : calls[0],
+            labelStyle: { fill: CALL_EDGE_COLOR, fontSize: 10 },
+            labelBgStyle: { fill: 'var(--vscode-editor-background)' },
+            animated: false,
+            zIndex: 1001,
+            style: {
+              stroke: CALL_EDGE_COLOR,
+              strokeWidth: 1.5,
+              opacity: replayEdgeId || isDimming ? 0.3 : 0.9,
+            },
+            markerEnd: {
+              type: MarkerType.ArrowClosed,
+              color: CALL_EDGE_COLOR,
+            },
+          };
+        }
+
+        if (edge.edgeType === 'import') {
+          const isTypeOnly = typeOnlyImportEdgeIds.has(edge.id);
+          return {
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            sourceHandle,
+            targetHandle,
+            animated: false,
+            zIndex: 1000, // Under the navigation edges
+            style: {
+              stroke: IMPORT_EDGE_COLOR,
+              strokeWidth: 1.5,
+              strokeDasharray: isTypeOnly ? '2 3' : '6 3',
+              opacity: replayEdgeId ? 0.3 : isTypeOnly ? 0.5 : 0.9,
+            },
+            markerEnd: {
+              type: MarkerType.ArrowClosed,
+              color: IMPORT_EDGE_COLOR,
+            },
+          };
+        }
+
+        // Show how often a transition was made once it has been taken more than once
+        const visitCount = edge.visitCount ?? 1;
+        const isReplayEdge = edge.id === replayEdgeId;
+        const edgeColor = isReplayEdge ? 'var(--vscode-charts-orange, #ff9800)' : 'var(--vscode-charts-blue, #4fc3f7)';
+
         return {
           id: edge.id,
           source: edge.source,
           target: edge.target,
           sourceHandle,
           targetHandle,
+          label: visitCount > 1 ? `×${visitCount}` : undefined,
+          labelStyle: { fill: 'var(--vscode-foreground)', fontSize: 10 },
+          labelBgStyle: { fill: 'var(--vscode-editor-background)' },
           animated: true,
-          zIndex: 1001, // Above file nodes (1000) and group nodes (100)
-          style: { stroke: 'var(--vscode-charts-blue, #4fc3f7)', strokeWidth: 2 },
+          zIndex: isReplayEdge ? 1002 : 1001, // Above file nodes (1000) and group nodes (100)
+          style: {
+            stroke: edgeColor,
+            strokeWidth: isReplayEdge ? 4 : 2,
+            // Fade the rest of the journey while replaying
+            opacity: (replayEdgeId && !isReplayEdge) || isDimming ? 0.3 : 1,
+          },
           markerEnd: {
             type: MarkerType.ArrowClosed,
-            color: 'var(--vscode-charts-blue, #4fc3f7)',
+            color: edgeColor,
           },
         };
       }),
-    [filteredEdges, filteredGroups, viewMode, inputNodes]
+    [filteredEdges, filteredGroups, viewMode, inputNodes, replayEdgeId, cycleEdgeIds, pathEdgeIds, impactEdgeIds, isDimming, unusedEdgeIds, boundaryViolationCounts, typeOnlyImportEdgeIds]
   );
 
+  // One edge per pair of clusters, as thick as the number of plugin dependencies it stands for
+  const clusterFlowEdges: Edge[] = useMemo(() => {
+    if (!isClustered) {
+      return [];
+    }
+    const dependencyEdges = filteredEdges.filter((edge) => edge.edgeType === 'dependency' || edge.id.startsWith('dep-'));
+    const clusterNodeById = new Map(clusterFlowNodes.map((node) => [node.id, node]));
+    const stroke = DEPENDENCY_KIND_STYLES.required.color;
+    return aggregateClusterEdges(dependencyEdges, pluginClusters).map((edge) => {
+      const sourceNode = clusterNodeById.get(edge.source)!;
+      const targetNode = clusterNodeById.get(edge.target)!;
+      const { sourceHandle, targetHandle } = calculateHandles(
+        sourceNode.position,
+        sourceNode.style!.width as number,
+        sourceNode.style!.height as number,
+        targetNode.position,
+        targetNode.style!.width as number,
+        targetNode.style!.height as number
+      );
+      return {
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle,
+        targetHandle,
+        type: 'default',
+        label: `${edge.count}`,
+        labelStyle: { fill: stroke, fontSize: 48 },
+        labelBgStyle: { fill: 'var(--vscode-editor-background)' },
+        style: { stroke, strokeWidth: Math.min(40, 3 + 3 * Math.sqrt(edge.count)), opacity: 0.5 },
+        // Sized in flow units, so thick edges don't get huge arrowheads
+        markerEnd: { type: MarkerType.ArrowClosed, color: stroke, width: 60, height: 60, markerUnits: 'userSpaceOnUse' },
+      };
+    });
+  }, [isClustered, filteredEdges, clusterFlowNodes, pluginClusters]);
+
+  const displayedEdges = isClustered ? clusterFlowEdges : flowEdges;
+
+  // Cluster when zoomed out past the threshold, show the plugins again when zoomed back in
+  const handleMove = useCallback((_event: MouseEvent | TouchEvent | null, viewport: Viewport) => {
+    setIsZoomedOut(viewport.zoom < CLUSTER_ZOOM_THRESHOLD);
+  }, []);
+
   const [nodes, setNodes, onNodesChange] = useNodesState(flowNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(flowEdges);
 
@@ -843,10 +1424,46 @@ export function PathfinderGraph({
     return Object.entries(distribution).map(([id, count]) => `${id}:${count}`).sort().join(',');
   }, [inputNodes]);
 
+  // Plugin mode: re-arrange the groups with the chosen layout whenever groups are added, removed or resized.
+  // Positions are saved, so dragging a group afterwards sticks until the next change
+  const appliedPluginLayoutRef = useRef('');
+  useEffect(() => {
+    if (viewMode !== 'plugin' || activeLayout === 'manual') {
+      appliedPluginLayoutRef.current = '';
+      return;
+    }
+    const layoutKey = `${activeLayout}:${radialFocus ?? ''}:${groupDimensionsFingerprint}`;
+    if (inputGroups.length === 0 || appliedPluginLayoutRef.current === layoutKey) {
+      return;
+    }
+    appliedPluginLayoutRef.current = layoutKey;
+
+    const groupIdsWithFiles = new Set(inputNodes.map((n) => n.groupId));
+    const layoutNodes = inputGroups.map((group) => {
+      // Empty dependency groups render compact
+      const isCompact = group.type === 'dependency' && !groupIdsWithFiles.has(group.id);
+      return {
+        id: group.id,
+        width: isCompact ? 200 : group.width,
+        height: isCompact ? 50 : group.height,
+        fixed: activePins[group.id],
+      };
+    });
+    const layoutEdges = inputEdges
+      .filter((edge) => edge.edgeType === 'dependency' || edge.id.startsWith('dep-'))
+      .map((edge) => ({ source: edge.source, target: edge.target }));
+    const positions = calculateGroupLayout(activeLayout, layoutNodes, layoutEdges, radialFocus);
+    if (positions) {
+      onGroupsChange(inputGroups.map((group) => ({ ...group, position: positions.get(group.id) ?? group.position })));
+      setLayoutVersion((version) => version + 1);
+    }
+  }, [viewMode, activeLayout, radialFocus, groupDimensionsFingerprint, inputGroups, inputNodes, inputEdges, onGroupsChange, activePins]);
+
   // Sync external nodes/edges with internal state and resolve collisions
   React.useEffect(() => {
     // Create a fingerprint that captures meaningful structural changes (count + dimensions + file distribution)
-    const currentFingerprint = `${inputNodes.length}-${inputGroups.length}-${groupDimensionsFingerprint}-${fileNodeDistributionFingerprint}`;
+    const clusterFingerprint = isClustered ? `${clusterBy}:${pluginClusters.length}` : 'plugins';
+    const currentFingerprint = `${inputNodes.length}-${inputGroups.length}-${groupDimensionsFingerprint}-${fileNodeDistributionFingerprint}-${layoutVersion}-${clusterFingerprint}`;
     const structuralChange = currentFingerprint !== prevCollisionStateRef.current;
     
     if (structuralChange) {
@@ -867,6 +1484,7 @@ export function PathfinderGraph({
             maxIterations: 50,
             overlapThreshold: 0.5,
             margin: 15,
+            pinnedIds: new Set(Object.keys(activePins)),
           })
         );
         collisionTimeoutRef.current = null;
@@ -893,7 +1511,7 @@ export function PathfinderGraph({
     // The timeout should only be cleared when a NEW structural change starts
     // (which is done at the beginning of the if(structuralChange) block).
     // Clearing in cleanup would cancel pending collision resolution on every re-render.
-  }, [flowNodes, setNodes, inputNodes.length, inputGroups.length, groupDimensionsFingerprint, fileNodeDistributionFingerprint]);
+  }, [flowNodes, setNodes, inputNodes.length, inputGroups.length, groupDimensionsFingerprint, fileNodeDistributionFingerprint, layoutVersion, isClustered, clusterBy, pluginClusters.length]);
 
   // Cleanup timeout on unmount only
   React.useEffect(() => {
@@ -905,8 +1523,8 @@ export function PathfinderGraph({
   }, []);
 
   React.useEffect(() => {
-    setEdges(flowEdges);
-  }, [flowEdges, setEdges]);
+    setEdges(displayedEdges);
+  }, [displayedEdges, setEdges]);
 
   // Handle node position changes
   const handleNodesChange = useCallback(
@@ -936,24 +1554,47 @@ export function PathfinderGraph({
           }
           return group;
         });
-        onGroupsChange(updatedGroups);
+
+        // Dragging a group in Complete mode pins it, and pinned groups keep their pin wherever they are dropped
+        const updatedPins = { ...activePins };
+        let pinsChanged = false;
+        for (const change of positionChanges) {
+          if (change.type !== 'position' || !change.position || !change.id.startsWith('group-')) {
+            continue;
+          }
+          if (viewMode === 'complete' || updatedPins[change.id]) {
+            updatedPins[change.id] = { x: Math.round(change.position.x), y: Math.round(change.position.y) };
+            pinsChanged = true;
+          }
+        }
+        if (pinsChanged && (viewMode === 'plugin' || viewMode === 'complete')) {
+          onGroupsChange(updatedGroups, { ...pins, [viewMode]: updatedPins });
+        } else {
+          onGroupsChange(updatedGroups);
+        }
       }
     },
-    [onNodesChange, inputNodes, inputEdges, inputGroups, nodes, onStateChange, onGroupsChange]
+    [onNodesChange, inputNodes, inputEdges, inputGroups, nodes, onStateChange, onGroupsChange, viewMode, activePins, pins]
   );
 
   // Handle node drag stop - resolve collisions after manual drag
+  // Dropped groups stay where they were dropped if they are (or are about to be) pinned
   const handleNodeDragStop = useCallback(
-    () => {
+    (_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+      const pinnedIds = new Set(Object.keys(activePins));
+      if (viewMode === 'complete') {
+        draggedNodes.forEach((node) => pinnedIds.add(node.id));
+      }
       setNodes((currentNodes) =>
         resolveCollisions(currentNodes, {
           maxIterations: 50,
           overlapThreshold: 0.5,
           margin: 15,
+          pinnedIds,
         })
       );
     },
-    [setNodes]
+    [setNodes, viewMode, activePins]
   );
 
   const handleEdgesChange = useCallback(
@@ -963,10 +1604,160 @@ export function PathfinderGraph({
     [onEdgesChange]
   );
 
+  // Diagram export renders exactly what is visible: the mode-filtered groups and edges
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const handleExportDiagram = useCallback(
+    (format: DiagramFormat) => {
+      setIsExportMenuOpen(false);
+      const content = renderDiagram({ groups: filteredGroups, nodes: inputNodes, edges: filteredEdges }, format);
+      onExportDiagram(format, content);
+    },
+    [filteredGroups, inputNodes, filteredEdges, onExportDiagram]
+  );
+
+  // Checks the plugins the user navigated into - dependency groups are only shown for context
+  const handleCheckBoundaries = useCallback(() => {
+    onCheckBoundaries(filteredGroups.filter((g) => g.type === 'plugin').map((g) => g.id.replace('group-', '')));
+  }, [filteredGroups, onCheckBoundaries]);
+
+  const handleExportImpact = useCallback(() => {
+    if (impact) {
+      onExportImpactReport(formatImpactReport(impact, allPlugins));
+    }
+  }, [impact, allPlugins, onExportImpactReport]);
+
+  const handleFocusPlugin = useCallback((runtimeId: string) => {
+    reactFlowInstance.current?.fitView({ nodes: [{ id: `group-${runtimeId}` }], maxZoom: 1.5, duration: 300 });
+  }, []);
+
+  // Bring the "path between" chains into view
+  useEffect(() => {
+    if (pathGroupIds.size === 0) {
+      return;
+    }
+    reactFlowInstance.current?.fitView({
+      nodes: [...pathGroupIds].map((id) => ({ id })),
+      padding: 0.3,
+      duration: 300,
+    });
+  }, [pathGroupIds]);
+
+  // Bring the selected cycle into view
+  useEffect(() => {
+    if (cycleGroupIds.size === 0) {
+      return;
+    }
+    reactFlowInstance.current?.fitView({
+      nodes: [...cycleGroupIds].map((id) => ({ id })),
+      padding: 0.3,
+      duration: 300,
+    });
+  }, [cycleGroupIds]);
+
+  const handleReplayStepChange = useCallback(
+    (step: JourneyStep) => {
+      setReplayStep(step);
+
+      // Follow the replay with the viewport
+      const targetNode = inputNodes.find((n) => n.id === step.target);
+      if (!targetNode || !reactFlowInstance.current) {
+        return;
+      }
+      let centerX = targetNode.position.x + 100;
+      let centerY = targetNode.position.y + 40;
+      if (targetNode.groupId) {
+        const groupPosition =
+          completePositionsRef.current.get(targetNode.groupId) ||
+          filteredGroups.find((g) => g.id === targetNode.groupId)?.position;
+        if (groupPosition) {
+          centerX += groupPosition.x;
+          centerY += groupPosition.y;
+        }
+      }
+      reactFlowInstance.current.setCenter(centerX, centerY, {
+        zoom: reactFlowInstance.current.getZoom(),
+        duration: 300,
+      });
+    },
+    [inputNodes, filteredGroups]
+  );
+
+  const handleCloseReplay = useCallback(() => {
+    setIsReplayOpen(false);
+    setReplayStep(null);
+  }, []);
+
+  // The journey is gone after clearing the graph or switching sessions
+  useEffect(() => {
+    if (journey.length === 0) {
+      handleCloseReplay();
+    }
+  }, [journey.length, handleCloseReplay]);
+
   const modes: ViewMode[] = ['journey', 'plugin', 'complete', '3d'];
 
   return (
     <div style={{ width: '100%', height: '100%', position: 'relative' }}>
+      {/* Impact and public API panels - below the top controls */}
+      {(impact ||
+        publicApiPluginId ||
+        (isBoundaryPanelOpen && viewMode === 'plugin') ||
+        (isFilterPanelOpen && viewMode === 'complete')) && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 50,
+            right: 10,
+            zIndex: 10,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          {impact && (
+            <ImpactPanel
+              impact={impact}
+              plugins={allPlugins}
+              onSelectPlugin={handleFocusPlugin}
+              onExport={handleExportImpact}
+              onClose={() => setImpactPluginId(null)}
+            />
+          )}
+          {publicApiPluginId && (
+            <PublicApiPanel
+              pluginId={publicApiPluginId}
+              report={publicApiReport}
+              isLoading={isAnalyzingPublicApi}
+              plugins={allPlugins}
+              onSelectPlugin={handleFocusPlugin}
+              onOpenExport={onOpenImportUsage}
+              onClose={() => onShowPublicApi(null)}
+            />
+          )}
+          {isBoundaryPanelOpen && viewMode === 'plugin' && (
+            <BoundaryPanel
+              violations={boundaryCheck?.violations ?? null}
+              checkedPluginCount={boundaryCheck?.pluginIds.length ?? 0}
+              isChecking={isCheckingBoundaries}
+              plugins={allPlugins}
+              onOpenViolation={onOpenImportUsage}
+              onRecheck={handleCheckBoundaries}
+              onClose={() => setIsBoundaryPanelOpen(false)}
+            />
+          )}
+          {isFilterPanelOpen && viewMode === 'complete' && (
+            <PluginFilterPanel
+              filter={pluginFilter}
+              plugins={allPlugins}
+              visibleCount={visiblePlugins.length}
+              onFilterChange={setPluginFilter}
+              onClose={() => setIsFilterPanelOpen(false)}
+            />
+          )}
+        </div>
+      )}
+
       {/* Top controls bar */}
       <div
         style={{
@@ -1061,6 +1852,154 @@ export function PathfinderGraph({
             )}
           </div>
 
+        {/* Path between two plugins */}
+        {viewMode === 'complete' && allPlugins.length > 0 && (
+          <DependencyPathFinder
+            plugins={allPlugins}
+            query={dependencyPathQuery}
+            paths={dependencyPaths}
+            onQueryChange={onDependencyPathQueryChange}
+          />
+        )}
+
+        {/* Static import overlay */}
+        {viewMode === 'journey' && (
+          <button
+            onClick={() => setShowFileImports(!showFileImports)}
+            style={{
+              padding: '6px 12px',
+              background: showFileImports
+                ? 'var(--vscode-button-background)'
+                : 'var(--vscode-button-secondaryBackground)',
+              color: showFileImports
+                ? 'var(--vscode-button-foreground)'
+                : 'var(--vscode-button-secondaryForeground)',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontFamily: 'var(--vscode-font-family)',
+            }}
+            title="Show which files on the graph import each other (green dashed edges, dotted for type-only imports)"
+          >
+            Imports
+          </button>
+        )}
+
+        {/* Cross-environment import check of the plugins in the graph */}
+        {viewMode === 'plugin' && (
+          <button
+            onClick={() => {
+              if (isBoundaryPanelOpen) {
+                setIsBoundaryPanelOpen(false);
+              } else {
+                setIsBoundaryPanelOpen(true);
+                handleCheckBoundaries();
+              }
+            }}
+            style={{
+              padding: '6px 12px',
+              background: isBoundaryPanelOpen
+                ? 'var(--vscode-button-background)'
+                : 'var(--vscode-button-secondaryBackground)',
+              color: isBoundaryPanelOpen
+                ? 'var(--vscode-button-foreground)'
+                : 'var(--vscode-button-secondaryForeground)',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontFamily: 'var(--vscode-font-family)',
+            }}
+            title="Find public/server/common imports that cross environments"
+          >
+            Boundaries
+          </button>
+        )}
+
+        {/* Hide plugins by directory, type, owner, degree or reachability */}
+        {viewMode === 'complete' && allPlugins.length > 0 && (
+          <button
+            onClick={() => setIsFilterPanelOpen(!isFilterPanelOpen)}
+            style={{
+              padding: '6px 12px',
+              background:
+                isFilterPanelOpen || isFiltering
+                  ? 'var(--vscode-button-background)'
+                  : 'var(--vscode-button-secondaryBackground)',
+              color:
+                isFilterPanelOpen || isFiltering
+                  ? 'var(--vscode-button-foreground)'
+                  : 'var(--vscode-button-secondaryForeground)',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontFamily: 'var(--vscode-font-family)',
+            }}
+            title={
+              isFiltering
+                ? `Showing ${visiblePlugins.length} of ${allPlugins.length} plugins`
+                : 'Hide plugins by directory, type, owner, degree or reachability'
+            }
+          >
+            Filter{isFiltering ? ` (${visiblePlugins.length})` : ''}
+          </button>
+        )}
+
+        {/* Semantic zoom clusters */}
+        {viewMode === 'complete' && (
+          <select
+            value={clusterBy ?? ''}
+            onChange={(e) => setClusterBy((e.target.value || null) as ClusterBy | null)}
+            title="Plugins collapse into clusters when zoomed out, and expand again as you zoom in"
+            style={layoutSelectStyle}
+          >
+            {CLUSTER_OPTIONS.map(({ clusterBy: value, label }) => (
+              <option key={label} value={value ?? ''}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Layout of the plugin groups */}
+        {(viewMode === 'plugin' || viewMode === 'complete') && (
+          <select
+            value={activeLayout}
+            onChange={(e) => onLayoutChange(viewMode, e.target.value as GraphLayout)}
+            disabled={isCalculatingLayout}
+            title={LAYOUT_OPTIONS.find((option) => option.layout === activeLayout)?.description}
+            style={layoutSelectStyle}
+          >
+            {LAYOUT_OPTIONS.filter((option) => viewMode === 'plugin' || option.layout !== 'manual').map(
+              ({ layout, label, description }) => (
+                <option key={layout} value={layout} title={description}>
+                  {label} layout
+                </option>
+              )
+            )}
+          </select>
+        )}
+        {(viewMode === 'plugin' || viewMode === 'complete') && activeLayout === 'radial' && (
+          <select
+            value={radialFocusGroupId ?? ''}
+            onChange={(e) => setRadialFocusGroupId(e.target.value || null)}
+            disabled={isCalculatingLayout}
+            title="Plugin at the center of the radial layout"
+            style={{ ...layoutSelectStyle, maxWidth: '180px' }}
+          >
+            <option value="">Most connected plugin</option>
+            {[...filteredGroups]
+              .sort((a, b) => a.label.localeCompare(b.label))
+              .map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.label}
+                </option>
+              ))}
+          </select>
+        )}
+
         {/* Mode toggle */}
         <div
           style={{
@@ -1099,7 +2038,11 @@ export function PathfinderGraph({
                   alignItems: 'center',
                   gap: '4px',
                 }}
-                title={isLoading ? 'Calculating layout...' : `${mode} mode`}
+                title={
+                  isLoading
+                    ? `Calculating layout...${layoutProgress !== null ? ` ${Math.round(layoutProgress * 100)}%` : ''}`
+                    : `${mode} mode`
+                }
               >
                 {isLoading && (
                   <span
@@ -1120,6 +2063,91 @@ export function PathfinderGraph({
           })}
         </div>
 
+        {/* Journey replay */}
+        <button
+          onClick={() => (isReplayOpen ? handleCloseReplay() : setIsReplayOpen(true))}
+          disabled={journey.length === 0}
+          style={{
+            padding: '6px 12px',
+            background: isReplayOpen
+              ? 'var(--vscode-button-background)'
+              : 'var(--vscode-button-secondaryBackground)',
+            color: isReplayOpen
+              ? 'var(--vscode-button-foreground)'
+              : 'var(--vscode-button-secondaryForeground)',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: journey.length === 0 ? 'default' : 'pointer',
+            opacity: journey.length === 0 ? 0.5 : 1,
+            fontSize: '12px',
+            fontFamily: 'var(--vscode-font-family)',
+          }}
+          title={journey.length === 0 ? 'Navigate between files to record a journey' : 'Replay the recorded journey'}
+        >
+          Replay
+        </button>
+
+        {/* Diagram export */}
+        <div style={{ position: 'relative' }}>
+          <button
+            onClick={() => setIsExportMenuOpen((open) => !open)}
+            onBlur={() => {
+              // Delay to allow click on menu item
+              setTimeout(() => setIsExportMenuOpen(false), 200);
+            }}
+            style={{
+              padding: '6px 12px',
+              background: 'var(--vscode-button-secondaryBackground)',
+              color: 'var(--vscode-button-secondaryForeground)',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontFamily: 'var(--vscode-font-family)',
+            }}
+            title="Export the visible graph as a diagram"
+          >
+            Export
+          </button>
+          {isExportMenuOpen && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '100%',
+                right: 0,
+                marginTop: '4px',
+                background: 'var(--vscode-dropdown-background)',
+                border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))',
+                borderRadius: '4px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+                zIndex: 100,
+                minWidth: '140px',
+              }}
+            >
+              {([
+                ['mermaid', 'Mermaid flowchart'],
+                ['dot', 'Graphviz DOT'],
+              ] as [DiagramFormat, string][]).map(([format, label]) => (
+                <div
+                  key={format}
+                  onClick={() => handleExportDiagram(format)}
+                  style={{
+                    padding: '8px 10px',
+                    cursor: 'pointer',
+                    color: 'var(--vscode-dropdown-foreground)',
+                    fontSize: '12px',
+                    fontFamily: 'var(--vscode-font-family)',
+                  }}
+                  onMouseEnter={(e) => (e.currentTarget.style.background = 'var(--vscode-list-hoverBackground)')}
+                  onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+                >
+                  {label}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Clear button */}
         <button
           onClick={onClear}
@@ -1148,7 +2176,9 @@ export function PathfinderGraph({
         elevateNodesOnSelect={false}
         onInit={(instance) => {
           reactFlowInstance.current = instance;
+          setIsZoomedOut(instance.getZoom() < CLUSTER_ZOOM_THRESHOLD);
         }}
+        onMove={handleMove}
         nodeTypes={nodeTypes}
         fitView
         fitViewOptions={{ padding: 0.2 }}
@@ -1169,7 +2199,7 @@ export function PathfinderGraph({
             border: '1px solid var(--vscode-panel-border)',
           }}
           nodeColor={(node) => {
-            if (node.type === 'groupNode') {
+            if (node.type === 'groupNode' || node.type === 'clusterNode') {
               return 'var(--vscode-charts-purple, #c586c0)';
             }
             return node.data?.isHighlighted
@@ -1186,6 +2216,73 @@ export function PathfinderGraph({
         />
       </ReactFlow>
 
+      {/* Dependency kinds legend - below the session picker */}
+      {viewMode !== 'journey' && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 48,
+            left: 10,
+            zIndex: 10,
+            padding: '8px 10px',
+            background: 'var(--vscode-editor-background)',
+            border: '1px solid var(--vscode-panel-border)',
+            borderRadius: '6px',
+            color: 'var(--vscode-foreground)',
+            fontSize: '11px',
+            fontFamily: 'var(--vscode-font-family)',
+          }}
+        >
+          <div style={{ fontWeight: 600, marginBottom: '6px' }}>Dependencies</div>
+          <DependencyLegend
+            hiddenKinds={hiddenDependencyKinds}
+            onToggleKind={onToggleDependencyKind}
+            showAudit={viewMode === 'plugin' && dependencyAudit.length > 0}
+          />
+          {viewMode === 'complete' && (
+            <>
+              <div style={{ fontWeight: 600, margin: '10px 0 6px' }}>Plugin metadata</div>
+              <PluginMetadataPanel
+                metadataList={allPluginMetadata}
+                colorBy={metadataColorBy}
+                colorScale={metadataColorScale}
+                filter={metadataFilter}
+                onColorByChange={setMetadataColorBy}
+                onFilterChange={setMetadataFilter}
+              />
+              <div style={{ fontWeight: 600, margin: '10px 0 6px' }}>
+                Dependency cycles{dependencyCycles.length > 0 && ` (${dependencyCycles.length})`}
+              </div>
+              <CyclePanel
+                cycles={dependencyCycles}
+                selectedCycleId={selectedCycle?.id ?? null}
+                onSelectCycle={onSelectCycle}
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Journey replay player */}
+      {isReplayOpen && journey.length > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 10,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 10,
+          }}
+        >
+          <JourneyPlayer
+            steps={journey}
+            onStepChange={handleReplayStepChange}
+            onOpenStep={onOpenJourneyStep}
+            onClose={handleCloseReplay}
+          />
+        </div>
+      )}
+
       {/* Loading state for complete mode */}
       {viewMode === 'complete' && allPlugins.length === 0 && (
         <div
@@ -1,5 +1,11 @@
 import React, { useMemo, useState, useCallback, useEffect } from 'react';
-import { PluginInfoForWebview, ViewMode, FileNode, NavigationEdge, GroupNode } from '../../types';
+import { PluginInfoForWebview, ViewMode, FileNode, NavigationEdge, GroupNode, DependencyKind, PluginMetadata } from '../../types';
+import { getPluginDependencies } from '../../pluginDependencies';
+import { DependencyLegend, DEPENDENCY_KIND_STYLES } from './DependencyLegend';
+import { CyclePanel, CYCLE_RGB } from './CyclePanel';
+import { DependencyPathFinder, PATH_RGB } from './DependencyPathFinder';
+import { DependencyPathQuery } from '../utils/dependencyPaths';
+import { DependencyCycle } from '../../pluginCycles';
 
 // Lazy load Deck.gl to prevent blocking
 let DeckGL: any = null;
@@ -23,6 +29,7 @@ interface Node3D {
   radius: number;
   color: [number, number, number, number];
   label: string;
+  metadata?: PluginMetadata; // Plugin nodes only
 }
 
 // Edge data structure for 3D visualization
@@ -30,6 +37,7 @@ interface Edge3D {
   source: Node3D;
   target: Node3D;
   type: 'dependency' | 'navigation';
+  dependencyKind?: DependencyKind;
 }
 
 interface PathfinderGraph3DProps {
@@ -38,6 +46,14 @@ interface PathfinderGraph3DProps {
   fileEdges: NavigationEdge[];
   groups: GroupNode[];
   activeNodeId: string | null;
+  hiddenDependencyKinds: Set<DependencyKind>;
+  onToggleDependencyKind: (kind: DependencyKind) => void;
+  dependencyCycles: DependencyCycle[];
+  selectedCycle: DependencyCycle | null;
+  onSelectCycle: (cycleId: string | null) => void;
+  dependencyPathQuery: DependencyPathQuery | null;
+  dependencyPaths: string[][];
+  onDependencyPathQueryChange: (query: DependencyPathQuery | null) => void;
   onPluginClick: (pluginId: string) => void;
   onPluginDoubleClick: (pluginId: string) => void;
   onFileClick: (filePath: string) => void;
@@ -50,6 +66,15 @@ function easeOutCubic(t: number): number {
   return 1 - Math.pow(1 - t, 3);
 }
 
+// Required dependencies keep the original subtle grey; other kinds are brighter so they stand out
+function getDependencyEdgeColor(edge: Edge3D, isDimmed: boolean): [number, number, number, number] {
+  const kind = edge.dependencyKind ?? 'required';
+  if (isDimmed) {
+    return [...DEPENDENCY_KIND_STYLES[kind].rgb, 15];
+  }
+  return [...DEPENDENCY_KIND_STYLES[kind].rgb, kind === 'required' ? 80 : 110];
+}
+
 // Calculate dependency depths using memoized DFS - O(V+E) algorithm
 function calculateDependencyDepths(
   plugins: PluginInfoForWebview[]
@@ -133,6 +158,14 @@ export function PathfinderGraph3D({
   fileEdges,
   groups,
   activeNodeId,
+  hiddenDependencyKinds,
+  onToggleDependencyKind,
+  dependencyCycles,
+  selectedCycle,
+  onSelectCycle,
+  dependencyPathQuery,
+  dependencyPaths,
+  onDependencyPathQueryChange,
   onPluginClick,
   onPluginDoubleClick,
   onFileClick,
@@ -259,6 +292,7 @@ export function PathfinderGraph3D({
           radius: nodeRadius,
           color: getPluginColor(depth),
           label: plugin.packageId.replace('@kbn/', ''),
+          metadata: plugin.metadata,
         };
         
         nodes3D.push(node);
@@ -374,13 +408,14 @@ export function PathfinderGraph3D({
       const sourceNode = nodeMap.get(plugin.runtimeId);
       if (!sourceNode) continue;
       
-      for (const depId of plugin.requiredPlugins) {
+      for (const { pluginId: depId, kind } of getPluginDependencies(plugin)) {
         const targetNode = nodeMap.get(depId);
         if (targetNode) {
           edges3D.push({
             source: sourceNode,
             target: targetNode,
             type: 'dependency',
+            dependencyKind: kind,
           });
         }
       }
@@ -487,9 +522,26 @@ export function PathfinderGraph3D({
     // Separate plugins and files for different rendering
     const pluginNodes = nodes.filter(n => n.type === 'plugin');
     const fileNodesList = nodes.filter(n => n.type === 'file');
-    const dependencyEdges = edges.filter(e => e.type === 'dependency');
+    const dependencyEdges = edges.filter(
+      e => e.type === 'dependency' && !hiddenDependencyKinds.has(e.dependencyKind ?? 'required')
+    );
     const navigationEdges = edges.filter(e => e.type === 'navigation');
 
+    // Plugins and edges of the selected dependency cycle
+    const cyclePluginIds = new Set(selectedCycle?.pluginIds);
+    const cycleEdgeKeys = new Set(selectedCycle?.edges.map((edge) => `${edge.source}->${edge.target}`));
+    const cycleEdges = dependencyEdges.filter((e) => cycleEdgeKeys.has(`${e.source.id}->${e.target.id}`));
+
+    // Plugins and edges on the "path between" chains - everything else is dimmed while a query is set
+    const isPathActive = dependencyPathQuery !== null;
+    const pathPluginIds = new Set(
+      dependencyPathQuery ? [dependencyPathQuery.from, dependencyPathQuery.to, ...dependencyPaths.flat()] : []
+    );
+    const pathEdgeKeys = new Set(
+      dependencyPaths.flatMap((path) => path.slice(1).map((dep, index) => `${path[index]}->${dep}`))
+    );
+    const pathEdges = dependencyEdges.filter((e) => pathEdgeKeys.has(`${e.source.id}->${e.target.id}`));
+
     // Only show labels when zoomed in enough (zoom > 0.5)
     // Also show label for hovered node regardless of zoom
     const showAllLabels = viewState.zoom > 0.5;
@@ -498,6 +550,8 @@ export function PathfinderGraph3D({
     const visiblePluginLabels = pluginNodes.filter((n: Node3D) => {
       // Always show hovered node label
       if (hoveredNode?.id === n.id) return true;
+      // Always show labels along the "path between" chains
+      if (pathPluginIds.has(n.id)) return true;
       // Show all labels when zoomed in
       if (showAllLabels) return true;
       // Show labels for important nodes (many dependents) at medium zoom
@@ -507,17 +561,47 @@ export function PathfinderGraph3D({
     });
 
     return [
-      // Dependency edges (grey, thinner) - rendered first (back)
+      // Dependency edges (thinner, colored by dependency kind) - rendered first (back)
       new ArcLayer({
         id: 'dependency-edges',
         data: dependencyEdges,
         getSourcePosition: (d: Edge3D) => d.source.position,
         getTargetPosition: (d: Edge3D) => d.target.position,
-        getSourceColor: [80, 80, 80, 80],
-        getTargetColor: [80, 80, 80, 80],
+        getSourceColor: (d: Edge3D) => getDependencyEdgeColor(d, isPathActive),
+        getTargetColor: (d: Edge3D) => getDependencyEdgeColor(d, isPathActive),
         getWidth: 1,
         greatCircle: false,
         pickable: false,
+        updateTriggers: {
+          getSourceColor: [isPathActive],
+          getTargetColor: [isPathActive],
+        },
+      }),
+
+      // "Path between" chain edges drawn again on top
+      new ArcLayer({
+        id: 'path-edges',
+        data: pathEdges,
+        getSourcePosition: (d: Edge3D) => d.source.position,
+        getTargetPosition: (d: Edge3D) => d.target.position,
+        getSourceColor: [...PATH_RGB, 255],
+        getTargetColor: [...PATH_RGB, 255],
+        getWidth: 3,
+        greatCircle: false,
+        pickable: false,
+      }),
+
+      // Selected cycle edges drawn again on top, wider and in the error color
+      new ArcLayer({
+        id: 'cycle-edges',
+        data: cycleEdges,
+        getSourcePosition: (d: Edge3D) => d.source.position,
+        getTargetPosition: (d: Edge3D) => d.target.position,
+        getSourceColor: [...CYCLE_RGB, 255],
+        getTargetColor: [...CYCLE_RGB, 255],
+        getWidth: 3,
+        greatCircle: false,
+        pickable: false,
       }),
 
       // Navigation edges (blue, animated look)
@@ -540,6 +624,9 @@ export function PathfinderGraph3D({
         getPosition: (d: Node3D) => d.position,
         getFillColor: [0, 0, 0, 0], // Transparent fill
         getLineColor: (d: Node3D) => {
+          if (cyclePluginIds.has(d.id)) {
+            return [...CYCLE_RGB, 255];
+          }
           const [r, g, b] = d.color;
           return [r, g, b, 100]; // Semi-transparent outline
         },
@@ -550,6 +637,9 @@ export function PathfinderGraph3D({
         radiusMinPixels: 8,
         radiusMaxPixels: 40,
         pickable: false,
+        updateTriggers: {
+          getLineColor: [selectedCycle?.id],
+        },
       }),
 
       // Plugin nodes - main circle
@@ -561,6 +651,10 @@ export function PathfinderGraph3D({
           if (hoveredNode && hoveredNode.id === d.id) {
             return [255, 255, 255, 255];
           }
+          if (isPathActive && !pathPluginIds.has(d.id)) {
+            const [r, g, b] = d.color;
+            return [r, g, b, 40];
+          }
           return d.color;
         },
         getRadius: (d: Node3D) => d.radius,
@@ -570,7 +664,7 @@ export function PathfinderGraph3D({
         onClick: handleNodeClick,
         onHover: handleHover,
         updateTriggers: {
-          getFillColor: [hoveredNode?.id],
+          getFillColor: [hoveredNode?.id, dependencyPathQuery, dependencyPaths],
         },
       }),
 
@@ -660,7 +754,7 @@ export function PathfinderGraph3D({
         },
       }),
     ];
-  }, [nodes, edges, hoveredNode, handleNodeClick, handleHover, deckGlReady, viewState.zoom]);
+  }, [nodes, edges, hoveredNode, handleNodeClick, handleHover, deckGlReady, viewState.zoom, hiddenDependencyKinds, selectedCycle, dependencyPathQuery, dependencyPaths]);
 
   // Loading state
   if (isLoading) {
@@ -832,6 +926,16 @@ export function PathfinderGraph3D({
           Clear
         </button>
 
+        {/* Path between two plugins */}
+        {allPlugins.length > 0 && (
+          <DependencyPathFinder
+            plugins={allPlugins}
+            query={dependencyPathQuery}
+            paths={dependencyPaths}
+            onQueryChange={onDependencyPathQueryChange}
+          />
+        )}
+
         {/* Mode toggle */}
         <div
           style={{
@@ -868,12 +972,12 @@ export function PathfinderGraph3D({
         </div>
       </div>
 
-      {/* Tooltip */}
+      {/* Tooltip - below the session picker */}
       {hoveredNode && (
         <div
           style={{
             position: 'absolute',
-            top: 10,
+            top: 48,
             left: 10,
             padding: '12px 16px',
             background: 'var(--vscode-editor-background)',
@@ -900,6 +1004,22 @@ export function PathfinderGraph3D({
                 <div>Dependents: {hoveredNode.dependentCount}</div>
                 <div>Depth: {hoveredNode.depth}</div>
               </div>
+              {hoveredNode.metadata && (
+                <div style={{ marginTop: '8px', fontSize: '11px' }}>
+                  {hoveredNode.metadata.owner.length > 0 && (
+                    <div style={{ wordBreak: 'break-word' }}>Owner: {hoveredNode.metadata.owner.join(', ')}</div>
+                  )}
+                  {hoveredNode.metadata.type && <div>Type: {hoveredNode.metadata.type}</div>}
+                  {hoveredNode.metadata.group && <div>Group: {hoveredNode.metadata.group}</div>}
+                  {hoveredNode.metadata.visibility && <div>Visibility: {hoveredNode.metadata.visibility}</div>}
+                  <div>
+                    Runs in:{' '}
+                    {[hoveredNode.metadata.browser && 'browser', hoveredNode.metadata.server && 'server']
+                      .filter(Boolean)
+                      .join(', ') || 'none'}
+                  </div>
+                </div>
+              )}
             </>
           )}
           {hoveredNode.type === 'file' && (
@@ -959,6 +1079,15 @@ export function PathfinderGraph3D({
           />
           <span>Open file</span>
         </div>
+        <div style={{ marginBottom: '8px' }}>
+          <DependencyLegend hiddenKinds={hiddenDependencyKinds} onToggleKind={onToggleDependencyKind} />
+        </div>
+        <div style={{ marginBottom: '8px' }}>
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>
+            Dependency cycles{dependencyCycles.length > 0 && ` (${dependencyCycles.length})`}
+          </div>
+          <CyclePanel cycles={dependencyCycles} selectedCycleId={selectedCycle?.id ?? null} onSelectCycle={onSelectCycle} />
+        </div>
         <div style={{ marginTop: '8px', opacity: 0.7 }}>
           <div>🖱️ Drag to rotate</div>
           <div>⚡ Scroll to zoom</div>
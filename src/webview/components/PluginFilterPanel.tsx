@@ -0,0 +1,243 @@
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import { PluginInfoForWebview } from '../../types';
+import { getDistinctMetadataValues } from '../utils/pluginMetadata';
+import { EMPTY_PLUGIN_FILTER, PluginFilter, ReachableDirection, isPluginFilterActive } from '../utils/pluginFilter';
+
+interface PluginFilterPanelProps {
+  filter: PluginFilter;
+  plugins: PluginInfoForWebview[];
+  visibleCount: number; // Plugins left after filtering
+  onFilterChange: (filter: PluginFilter) => void;
+  onClose: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '2px 4px',
+  background: 'var(--vscode-input-background)',
+  color: 'var(--vscode-input-foreground)',
+  border: '1px solid var(--vscode-input-border, var(--vscode-panel-border))',
+  borderRadius: '4px',
+  fontSize: '11px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+const selectStyle: React.CSSProperties = {
+  ...inputStyle,
+  background: 'var(--vscode-dropdown-background)',
+  color: 'var(--vscode-dropdown-foreground)',
+  border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))',
+};
+
+const labelStyle: React.CSSProperties = { width: '80px', flexShrink: 0 };
+
+const rowStyle: React.CSSProperties = { display: 'flex', gap: '6px', alignItems: 'center' };
+
+function parseDegree(value: string): number | null {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+/**
+ * Number input that applies its value on Enter or blur, like the directory field.
+ */
+function DegreeInput({
+  value,
+  placeholder,
+  onCommit,
+}: {
+  value: number | null;
+  placeholder: string;
+  onCommit: (value: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseDegree(draft);
+    if (parsed !== value) {
+      onCommit(parsed);
+    } else {
+      setDraft(value?.toString() ?? '');
+    }
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          commit();
+        }
+      }}
+      style={inputStyle}
+    />
+  );
+}
+
+/**
+ * Complete mode filter that hides plugins by directory, manifest type and owner, dependency
+ * degree, and reachability from one plugin. The layout only arranges the plugins left.
+ */
+export const PluginFilterPanel = memo(({ filter, plugins, visibleCount, onFilterChange, onClose }: PluginFilterPanelProps) => {
+  // Typed values are applied on Enter or blur, so the layout doesn't restart on every keystroke
+  const [directoryDraft, setDirectoryDraft] = useState(filter.directoryPrefix);
+  useEffect(() => {
+    setDirectoryDraft(filter.directoryPrefix);
+  }, [filter.directoryPrefix]);
+
+  const metadataList = useMemo(() => plugins.map((p) => p.metadata), [plugins]);
+  const types = useMemo(() => getDistinctMetadataValues(metadataList, 'type'), [metadataList]);
+  const owners = useMemo(() => getDistinctMetadataValues(metadataList, 'owner'), [metadataList]);
+  const sortedPlugins = useMemo(() => [...plugins].sort((a, b) => a.packageId.localeCompare(b.packageId)), [plugins]);
+
+  const update = (changes: Partial<PluginFilter>) => onFilterChange({ ...filter, ...changes });
+  const commitDirectory = () => {
+    if (directoryDraft.trim() !== filter.directoryPrefix) {
+      update({ directoryPrefix: directoryDraft.trim() });
+    }
+  };
+
+  const renderDegreeRow = (
+    label: string,
+    min: 'minInDegree' | 'minOutDegree',
+    max: 'maxInDegree' | 'maxOutDegree',
+    title: string
+  ) => (
+    <div style={rowStyle} title={title}>
+      <span style={labelStyle}>{label}</span>
+      <DegreeInput value={filter[min]} placeholder="min" onCommit={(value) => update({ [min]: value })} />
+      <span>–</span>
+      <DegreeInput value={filter[max]} placeholder="max" onCommit={(value) => update({ [max]: value })} />
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        width: '300px',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '6px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+        color: 'var(--vscode-foreground)',
+        fontSize: '11px',
+        fontFamily: 'var(--vscode-font-family)',
+      }}
+    >
+      <div style={{ padding: '8px 10px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span style={{ flex: 1, fontWeight: 600 }}>Filter plugins</span>
+          <button
+            onClick={() => onFilterChange(EMPTY_PLUGIN_FILTER)}
+            disabled={!isPluginFilterActive(filter)}
+            style={buttonStyle}
+            title="Show all plugins again"
+          >
+            Reset
+          </button>
+          <button onClick={onClose} style={{ ...buttonStyle, padding: '2px 6px' }} title="Close">
+            ×
+          </button>
+        </div>
+        <div style={{ marginTop: '4px', color: 'var(--vscode-descriptionForeground)' }}>
+          Showing {visibleCount} of {plugins.length} plugins
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '8px 10px' }}>
+        <div style={rowStyle}>
+          <span style={labelStyle}>Directory</span>
+          <input
+            type="text"
+            placeholder="x-pack/solutions/security"
+            value={directoryDraft}
+            onChange={(e) => setDirectoryDraft(e.target.value)}
+            onBlur={commitDirectory}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                commitDirectory();
+              }
+            }}
+            style={inputStyle}
+          />
+        </div>
+        <div style={rowStyle}>
+          <span style={labelStyle}>Type</span>
+          <select value={filter.type ?? ''} onChange={(e) => update({ type: e.target.value || null })} style={selectStyle}>
+            <option value="">Any</option>
+            {types.map(({ value, count }) => (
+              <option key={value} value={value}>
+                {value} ({count})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={rowStyle}>
+          <span style={labelStyle}>Owner</span>
+          <select value={filter.owner ?? ''} onChange={(e) => update({ owner: e.target.value || null })} style={selectStyle}>
+            <option value="">Any</option>
+            {owners.map(({ value, count }) => (
+              <option key={value} value={value}>
+                {value} ({count})
+              </option>
+            ))}
+          </select>
+        </div>
+        {renderDegreeRow('In-degree', 'minInDegree', 'maxInDegree', 'Number of plugins that depend on the plugin')}
+        {renderDegreeRow('Out-degree', 'minOutDegree', 'maxOutDegree', 'Number of plugins the plugin depends on')}
+        <div style={rowStyle}>
+          <span style={labelStyle}>Reachable from</span>
+          <select
+            value={filter.reachableFrom ?? ''}
+            onChange={(e) => update({ reachableFrom: e.target.value || null })}
+            style={selectStyle}
+          >
+            <option value="">Any plugin</option>
+            {sortedPlugins.map((plugin) => (
+              <option key={plugin.runtimeId} value={plugin.runtimeId}>
+                {plugin.packageId || plugin.runtimeId}
+              </option>
+            ))}
+          </select>
+        </div>
+        {filter.reachableFrom && (
+          <div style={rowStyle}>
+            <span style={labelStyle} />
+            <select
+              value={filter.reachableDirection}
+              onChange={(e) => update({ reachableDirection: e.target.value as ReachableDirection })}
+              style={selectStyle}
+            >
+              <option value="dependencies">through its dependencies</option>
+              <option value="dependents">through its dependents</option>
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+PluginFilterPanel.displayName = 'PluginFilterPanel';
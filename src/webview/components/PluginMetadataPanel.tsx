@@ -0,0 +1,129 @@
+import React, { memo, useMemo } from 'react';
+import { PluginMetadata } from '../../types';
+import { METADATA_FIELDS, MetadataField, getDistinctMetadataValues } from '../utils/pluginMetadata';
+
+export interface MetadataFilter {
+  field: MetadataField;
+  value: string;
+}
+
+interface PluginMetadataPanelProps {
+  metadataList: (PluginMetadata | undefined)[]; // One entry per plugin
+  colorBy: MetadataField | null;
+  colorScale: Map<string, string>;
+  filter: MetadataFilter | null;
+  onColorByChange: (field: MetadataField | null) => void;
+  onFilterChange: (filter: MetadataFilter | null) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '2px 4px',
+  background: 'var(--vscode-dropdown-background)',
+  color: 'var(--vscode-dropdown-foreground)',
+  border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))',
+  borderRadius: '4px',
+  fontSize: '11px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+const MAX_LEGEND_ENTRIES = 10;
+
+/**
+ * Complete mode controls for coloring and filtering plugins by manifest metadata.
+ */
+export const PluginMetadataPanel = memo(
+  ({ metadataList, colorBy, colorScale, filter, onColorByChange, onFilterChange }: PluginMetadataPanelProps) => {
+    const filterValues = useMemo(
+      () => (filter ? getDistinctMetadataValues(metadataList, filter.field) : []),
+      [metadataList, filter]
+    );
+    const colorValues = useMemo(
+      () => (colorBy ? getDistinctMetadataValues(metadataList, colorBy).slice(0, MAX_LEGEND_ENTRIES) : []),
+      [metadataList, colorBy]
+    );
+
+    const handleFilterFieldChange = (field: string) => {
+      if (!field) {
+        onFilterChange(null);
+        return;
+      }
+      // Start with the most common value of the new field
+      const values = getDistinctMetadataValues(metadataList, field as MetadataField);
+      onFilterChange(values.length > 0 ? { field: field as MetadataField, value: values[0].value } : null);
+    };
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', width: '200px' }}>
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <span style={{ width: '48px' }}>Color by</span>
+          <select
+            value={colorBy ?? ''}
+            onChange={(e) => onColorByChange((e.target.value as MetadataField) || null)}
+            style={selectStyle}
+          >
+            <option value="">None</option>
+            {METADATA_FIELDS.map(({ field, label }) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <span style={{ width: '48px' }}>Filter</span>
+          <select value={filter?.field ?? ''} onChange={(e) => handleFilterFieldChange(e.target.value)} style={selectStyle}>
+            <option value="">All plugins</option>
+            {METADATA_FIELDS.map(({ field, label }) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {filter && (
+          <select
+            value={filter.value}
+            onChange={(e) => onFilterChange({ field: filter.field, value: e.target.value })}
+            style={{ ...selectStyle, marginLeft: '54px' }}
+          >
+            {filterValues.map(({ value, count }) => (
+              <option key={value} value={value}>
+                {value} ({count})
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Color legend - click a value to filter by it */}
+        {colorBy &&
+          colorValues.map(({ value, count }) => (
+            <div
+              key={value}
+              onClick={() => onFilterChange({ field: colorBy, value })}
+              style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}
+              title={`Show only ${value}`}
+            >
+              <span
+                style={{
+                  width: '10px',
+                  height: '10px',
+                  borderRadius: '2px',
+                  flexShrink: 0,
+                  background: colorScale.get(value),
+                }}
+              />
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {value}
+              </span>
+              <span style={{ color: 'var(--vscode-descriptionForeground)' }}>{count}</span>
+            </div>
+          ))}
+      </div>
+    );
+  }
+);
+
+PluginMetadataPanel.displayName = 'PluginMetadataPanel';
@@ -0,0 +1,213 @@
+import React, { memo, useMemo, useState } from 'react';
+import { PluginInfoForWebview, PublicApiEntry, PublicApiExport, PublicApiReport } from '../../types';
+
+interface PublicApiPanelProps {
+  pluginId: string;
+  report: PublicApiReport | null; // null while analyzing or if the analysis failed
+  isLoading: boolean;
+  plugins: PluginInfoForWebview[];
+  onSelectPlugin: (runtimeId: string) => void;
+  onOpenExport: (filePath: string, line: number) => void;
+  onClose: () => void;
+}
+
+const UNUSED_COLOR = 'var(--vscode-editorWarning-foreground, #cca700)';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontFamily: 'var(--vscode-font-family)',
+};
+
+const typeTagStyle: React.CSSProperties = {
+  marginLeft: '4px',
+  padding: '0 4px',
+  borderRadius: '3px',
+  fontSize: '9px',
+  background: 'var(--vscode-badge-background, #4d4d4d)',
+  color: 'var(--vscode-badge-foreground, #ffffff)',
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '6px',
+  padding: '2px 10px 2px 24px',
+  whiteSpace: 'nowrap',
+};
+
+/**
+ * Reverse import analysis: every export of a plugin's public API and the plugins that import it,
+ * so unused exports can be found and removed.
+ */
+export const PublicApiPanel = memo(
+  ({ pluginId, report, isLoading, plugins, onSelectPlugin, onOpenExport, onClose }: PublicApiPanelProps) => {
+    const [showUnusedOnly, setShowUnusedOnly] = useState(false);
+    const [collapsedEntries, setCollapsedEntries] = useState<Set<PublicApiEntry>>(new Set());
+    const [expandedExport, setExpandedExport] = useState<string | null>(null);
+    const packageIds = new Map(plugins.map((p) => [p.runtimeId, p.packageId]));
+
+    const entries = useMemo(() => {
+      const byEntry = new Map<PublicApiEntry, PublicApiExport[]>();
+      for (const exp of report?.exports || []) {
+        const list = byEntry.get(exp.entry) || [];
+        list.push(exp);
+        byEntry.set(exp.entry, list);
+      }
+      return [...byEntry].map(([entry, exports]) => ({
+        entry,
+        exports: exports.sort((a, b) => a.name.localeCompare(b.name)),
+        unused: exports.filter((exp) => exp.consumers.length === 0).length,
+      }));
+    }, [report]);
+
+    const unusedCount = entries.reduce((sum, { unused }) => sum + unused, 0);
+
+    const toggleEntry = (entry: PublicApiEntry) => {
+      setCollapsedEntries((prev) => {
+        const next = new Set(prev);
+        if (next.has(entry)) {
+          next.delete(entry);
+        } else {
+          next.add(entry);
+        }
+        return next;
+      });
+    };
+
+    let summary: string;
+    if (isLoading) {
+      summary = 'Scanning plugins for imports...';
+    } else if (!report) {
+      summary = 'The analysis was cancelled or failed';
+    } else if (report.exports.length === 0) {
+      summary = 'No exports found in public, server or common index files';
+    } else {
+      summary = `${report.exports.length} exports · ${unusedCount} unused · ${report.scannedPlugins} plugins scanned`;
+    }
+
+    return (
+      <div
+        style={{
+          width: '300px',
+          maxHeight: '60vh',
+          display: 'flex',
+          flexDirection: 'column',
+          background: 'var(--vscode-editorWidget-background, var(--vscode-editor-background))',
+          border: '1px solid var(--vscode-panel-border)',
+          borderRadius: '6px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+          color: 'var(--vscode-foreground)',
+          fontSize: '11px',
+          fontFamily: 'var(--vscode-font-family)',
+        }}
+      >
+        <div style={{ padding: '8px 10px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span
+              style={{ flex: 1, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              title={packageIds.get(pluginId) || pluginId}
+            >
+              Public API of {packageIds.get(pluginId) || pluginId}
+            </span>
+            <button onClick={onClose} style={buttonStyle} title="Close">
+              ×
+            </button>
+          </div>
+          <div style={{ marginTop: '4px', color: 'var(--vscode-descriptionForeground)' }}>{summary}</div>
+          {report && report.exports.length > 0 && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', marginTop: '4px', cursor: 'pointer' }}>
+              <input type="checkbox" checked={showUnusedOnly} onChange={(e) => setShowUnusedOnly(e.target.checked)} />
+              Unused only
+            </label>
+          )}
+          {report?.wholeModuleConsumers.map(({ entry, pluginIds }) => (
+            <div
+              key={entry}
+              style={{ marginTop: '4px', color: UNUSED_COLOR }}
+              title={pluginIds.map((id) => packageIds.get(id) || id).join('\n')}
+            >
+              ⚠ {pluginIds.length} {pluginIds.length === 1 ? 'plugin references' : 'plugins reference'} {entry} as a
+              whole module - exports used that way aren't counted
+            </div>
+          ))}
+        </div>
+
+        <div style={{ overflowY: 'auto', padding: '4px 0' }}>
+          {entries.map(({ entry, exports, unused }) => {
+            const isExpanded = !collapsedEntries.has(entry);
+            const visibleExports = showUnusedOnly ? exports.filter((exp) => exp.consumers.length === 0) : exports;
+            return (
+              <div key={entry}>
+                <div
+                  onClick={() => toggleEntry(entry)}
+                  style={{ display: 'flex', padding: '3px 10px', cursor: 'pointer', fontWeight: 600 }}
+                >
+                  <span style={{ flex: 1 }}>
+                    {isExpanded ? '▾' : '▸'} {entry}
+                  </span>
+                  <span style={{ color: 'var(--vscode-descriptionForeground)', fontWeight: 400 }}>
+                    {exports.length} · {unused} unused
+                  </span>
+                </div>
+                {isExpanded &&
+                  visibleExports.map((exp) => {
+                    const key = `${entry}#${exp.name}`;
+                    const isUnused = exp.consumers.length === 0;
+                    return (
+                      <div key={key}>
+                        <div style={rowStyle}>
+                          <span
+                            onClick={() => onOpenExport(exp.filePath, exp.line)}
+                            title={`${exp.filePath}:${exp.line}`}
+                            style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', cursor: 'pointer' }}
+                          >
+                            {exp.name}
+                            {exp.isTypeOnly && <span style={typeTagStyle}>type</span>}
+                          </span>
+                          {isUnused ? (
+                            <span style={{ color: UNUSED_COLOR }}>unused</span>
+                          ) : (
+                            <span
+                              onClick={() => setExpandedExport(expandedExport === key ? null : key)}
+                              style={{ color: 'var(--vscode-descriptionForeground)', cursor: 'pointer' }}
+                              title="Show the plugins that import it"
+                            >
+                              {exp.consumers.length} {exp.consumers.length === 1 ? 'plugin' : 'plugins'}{' '}
+                              {expandedExport === key ? '▾' : '▸'}
+                            </span>
+                          )}
+                        </div>
+                        {expandedExport === key &&
+                          exp.consumers.map((consumer) => (
+                            <div
+                              key={consumer.pluginId}
+                              onClick={() => onSelectPlugin(consumer.pluginId)}
+                              title={`${consumer.pluginId} - click to show in graph`}
+                              style={{ ...rowStyle, paddingLeft: '36px', cursor: 'pointer' }}
+                            >
+                              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                {packageIds.get(consumer.pluginId) || consumer.pluginId}
+                              </span>
+                              <span style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                                {consumer.importCount} {consumer.importCount === 1 ? 'import' : 'imports'}
+                              </span>
+                            </div>
+                          ))}
+                      </div>
+                    );
+                  })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+);
+
+PublicApiPanel.displayName = 'PublicApiPanel';
@@ -0,0 +1,96 @@
+import React, { memo } from 'react';
+import { JourneySession } from '../../types';
+
+interface SessionPickerProps {
+  sessions: JourneySession[];
+  activeSessionId: string | null;
+  onSwitch: (sessionId: string) => void;
+  onCreate: () => void;
+  onRename: (sessionId: string) => void;
+  onDuplicate: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  width: '24px',
+  height: '24px',
+  padding: 0,
+  background: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontFamily: 'var(--vscode-font-family)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+};
+
+/**
+ * Header control for switching between named journey sessions.
+ * Names are prompted for by the extension (webviews can't use window.prompt).
+ */
+export const SessionPicker = memo(
+  ({ sessions, activeSessionId, onSwitch, onCreate, onRename, onDuplicate, onDelete }: SessionPickerProps) => {
+    if (sessions.length === 0 || !activeSessionId) {
+      return null;
+    }
+
+    return (
+      <div
+        style={{
+          display: 'flex',
+          gap: '4px',
+          alignItems: 'center',
+        }}
+      >
+        <select
+          value={activeSessionId}
+          onChange={(e) => onSwitch(e.target.value)}
+          title="Switch journey session"
+          style={{
+            padding: '5px 6px',
+            maxWidth: '180px',
+            background: 'var(--vscode-dropdown-background)',
+            color: 'var(--vscode-dropdown-foreground)',
+            border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))',
+            borderRadius: '4px',
+            fontSize: '12px',
+            fontFamily: 'var(--vscode-font-family)',
+            outline: 'none',
+          }}
+        >
+          {sessions.map((session) => (
+            <option key={session.id} value={session.id}>
+              {session.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={onCreate} style={iconButtonStyle} title="New session">
+          +
+        </button>
+        <button onClick={() => onRename(activeSessionId)} style={iconButtonStyle} title="Rename session">
+          ✎
+        </button>
+        <button onClick={() => onDuplicate(activeSessionId)} style={iconButtonStyle} title="Duplicate session">
+          ⧉
+        </button>
+        <button
+          onClick={() => onDelete(activeSessionId)}
+          disabled={sessions.length <= 1}
+          style={{
+            ...iconButtonStyle,
+            opacity: sessions.length <= 1 ? 0.5 : 1,
+            cursor: sessions.length <= 1 ? 'default' : 'pointer',
+          }}
+          title={sessions.length <= 1 ? 'The last session cannot be deleted' : 'Delete session'}
+        >
+          ×
+        </button>
+      </div>
+    );
+  }
+);
+
+SessionPicker.displayName = 'SessionPicker';
@@ -0,0 +1,71 @@
+import type { PluginInfoForWebview } from '../../types';
+
+// The two plugins of a "path between" query, by runtime ID
+export interface DependencyPathQuery {
+  from: string; // the plugin that (transitively) depends...
+  to: string; // ...on this one
+}
+
+// Enumerating every shortest path can explode on dense graphs - the graph only needs a handful
+const MAX_PATHS = 50;
+
+/**
+ * All shortest requiredPlugins chains from one plugin to another. Each path starts with `from`
+ * and ends with `to`. Returns an empty list when `from` doesn't depend on `to`.
+ */
+export function findShortestDependencyPaths(
+  plugins: PluginInfoForWebview[],
+  { from, to }: DependencyPathQuery
+): string[][] {
+  const pluginMap = new Map(plugins.map((p) => [p.runtimeId, p]));
+  if (!pluginMap.has(from) || !pluginMap.has(to) || from === to) {
+    return [];
+  }
+
+  // Breadth-first from `from`, remembering every predecessor that reaches a plugin at its shortest distance
+  const distances = new Map<string, number>([[from, 0]]);
+  const predecessors = new Map<string, string[]>();
+  let frontier = [from];
+
+  while (frontier.length > 0 && !distances.has(to)) {
+    const next: string[] = [];
+    for (const pluginId of frontier) {
+      const distance = distances.get(pluginId)!;
+      for (const dep of pluginMap.get(pluginId)?.requiredPlugins || []) {
+        if (!pluginMap.has(dep)) {
+          continue;
+        }
+        if (!distances.has(dep)) {
+          distances.set(dep, distance + 1);
+          predecessors.set(dep, [pluginId]);
+          next.push(dep);
+        } else if (distances.get(dep) === distance + 1) {
+          predecessors.get(dep)!.push(pluginId);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  if (!distances.has(to)) {
+    return [];
+  }
+
+  // Walk the predecessor lists back from `to`
+  const paths: string[][] = [];
+  const walk = (pluginId: string, suffix: string[]) => {
+    if (paths.length >= MAX_PATHS) {
+      return;
+    }
+    if (pluginId === from) {
+      paths.push([from, ...suffix]);
+      return;
+    }
+    for (const predecessor of predecessors.get(pluginId) || []) {
+      walk(predecessor, [pluginId, ...suffix]);
+    }
+  };
+  walk(to, []);
+
+  return paths;
+}
@@ -0,0 +1,164 @@
+import type { FileNode, GroupNode, NavigationEdge, DiagramFormat } from '../../types';
+
+/**
+ * The graph as currently visible in PathfinderGraph (after view mode filtering).
+ */
+export interface VisibleGraph {
+  groups: GroupNode[];
+  nodes: FileNode[];
+  edges: NavigationEdge[];
+}
+
+function isDependencyEdge(edge: NavigationEdge): boolean {
+  return (
+    edge.edgeType === 'dependency' ||
+    edge.id.startsWith('dep-') ||
+    (edge.source.startsWith('group-') && edge.target.startsWith('group-'))
+  );
+}
+
+// Both formats only accept a restricted character set in bare identifiers
+function toDiagramId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+function escapeMermaidLabel(label: string): string {
+  return label.replace(/"/g, '#quot;');
+}
+
+function escapeDotLabel(label: string): string {
+  return label.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function getFileLabel(node: FileNode): string {
+  const symbols = [...(node.sourceSymbols || []), ...(node.symbols || [])].map((s) => s.name);
+  return symbols.length > 0 ? `${node.fileName} (${symbols.slice(0, 3).join(', ')})` : node.fileName;
+}
+
+/**
+ * Render the visible graph as a Mermaid flowchart.
+ * Plugin groups with files become subgraphs; navigation and call edges are solid, dependency and import edges dotted.
+ */
+export function toMermaid(graph: VisibleGraph): string {
+  const lines: string[] = ['flowchart TB'];
+  const nodesByGroup = new Map<string, FileNode[]>();
+  const ungroupedNodes: FileNode[] = [];
+
+  for (const node of graph.nodes) {
+    if (node.groupId && graph.groups.some((g) => g.id === node.groupId)) {
+      nodesByGroup.set(node.groupId, [...(nodesByGroup.get(node.groupId) || []), node]);
+    } else {
+      ungroupedNodes.push(node);
+    }
+  }
+
+  for (const group of graph.groups) {
+    const groupNodes = nodesByGroup.get(group.id);
+    const groupId = toDiagramId(group.id);
+    if (groupNodes && groupNodes.length > 0) {
+      lines.push(`  subgraph ${groupId}["${escapeMermaidLabel(group.label)}"]`);
+      for (const node of groupNodes) {
+        lines.push(`    ${toDiagramId(node.id)}["${escapeMermaidLabel(getFileLabel(node))}"]`);
+      }
+      lines.push('  end');
+    } else {
+      // Groups without files (dependencies, Complete mode plugins) are plain nodes
+      lines.push(`  ${groupId}(["${escapeMermaidLabel(group.label)}"])`);
+    }
+  }
+
+  for (const node of ungroupedNodes) {
+    lines.push(`  ${toDiagramId(node.id)}["${escapeMermaidLabel(getFileLabel(node))}"]`);
+  }
+
+  const dependencyLinkIndexes: number[] = [];
+  const importLinkIndexes: number[] = [];
+  const callLinkIndexes: number[] = [];
+  const navigationLinkIndexes: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    const isDependency = isDependencyEdge(edge);
+    const isImport = edge.edgeType === 'import';
+    if (edge.edgeType === 'call') {
+      const label = escapeMermaidLabel((edge.calls || []).join(', '));
+      lines.push(`  ${toDiagramId(edge.source)} -->|"${label}"| ${toDiagramId(edge.target)}`);
+      callLinkIndexes.push(index);
+      return;
+    }
+    const arrow = isDependency || isImport ? '-.->' : '-->';
+    lines.push(`  ${toDiagramId(edge.source)} ${arrow} ${toDiagramId(edge.target)}`);
+    (isDependency ? dependencyLinkIndexes : isImport ? importLinkIndexes : navigationLinkIndexes).push(index);
+  });
+
+  if (navigationLinkIndexes.length > 0) {
+    lines.push(`  linkStyle ${navigationLinkIndexes.join(',')} stroke:#4fc3f7,stroke-width:2px`);
+  }
+  if (dependencyLinkIndexes.length > 0) {
+    lines.push(`  linkStyle ${dependencyLinkIndexes.join(',')} stroke:#888888,stroke-width:1px`);
+  }
+  if (importLinkIndexes.length > 0) {
+    lines.push(`  linkStyle ${importLinkIndexes.join(',')} stroke:#89d185,stroke-width:1px`);
+  }
+  if (callLinkIndexes.length > 0) {
+    lines.push(`  linkStyle ${callLinkIndexes.join(',')} stroke:#b180d7,stroke-width:1px`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render the visible graph as Graphviz DOT.
+ * Plugin groups with files become clusters. Edges can't attach to a cluster directly,
+ * so each cluster gets a label node that group-level (dependency) edges connect to.
+ */
+export function toDot(graph: VisibleGraph): string {
+  const lines: string[] = [
+    'digraph Pathfinder {',
+    '  rankdir=TB;',
+    '  compound=true;',
+    '  node [shape=box, style="rounded", fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+
+  const groupIds = new Set(graph.groups.map((g) => g.id));
+
+  for (const group of graph.groups) {
+    const groupNodes = graph.nodes.filter((n) => n.groupId === group.id);
+    const groupId = toDiagramId(group.id);
+    if (groupNodes.length > 0) {
+      lines.push(`  subgraph cluster_${groupId} {`);
+      lines.push('    style="dashed";');
+      // The label node doubles as the cluster title
+      lines.push(`    ${groupId} [label="${escapeDotLabel(group.label)}", shape=plaintext];`);
+      for (const node of groupNodes) {
+        lines.push(`    ${toDiagramId(node.id)} [label="${escapeDotLabel(getFileLabel(node))}"];`);
+      }
+      lines.push('  }');
+    } else {
+      lines.push(`  ${groupId} [label="${escapeDotLabel(group.label)}", style="rounded,dashed"];`);
+    }
+  }
+
+  for (const node of graph.nodes) {
+    if (!node.groupId || !groupIds.has(node.groupId)) {
+      lines.push(`  ${toDiagramId(node.id)} [label="${escapeDotLabel(getFileLabel(node))}"];`);
+    }
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = isDependencyEdge(edge)
+      ? 'style=dashed, color="#888888", arrowsize=0.6'
+      : edge.edgeType === 'import'
+      ? 'style=dashed, color="#89d185", arrowsize=0.6'
+      : edge.edgeType === 'call'
+      ? `color="#b180d7", label="${(edge.calls || []).map(escapeDotLabel).join('\\n')}"`
+      : 'color="#4fc3f7", penwidth=2';
+    lines.push(`  ${toDiagramId(edge.source)} -> ${toDiagramId(edge.target)} [${attributes}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function renderDiagram(graph: VisibleGraph, format: DiagramFormat): string {
+  return format === 'mermaid' ? toMermaid(graph) : toDot(graph);
+}
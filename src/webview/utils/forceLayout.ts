@@ -0,0 +1,272 @@
+import {
+  forceSimulation,
+  forceLink,
+  forceManyBody,
+  forceCenter,
+  forceCollide,
+  SimulationNodeDatum,
+  SimulationLinkDatum,
+} from 'd3-force';
+import type { LayoutNode, LayoutEdge } from './graphLayouts';
+
+// Force-directed layout using d3-force (optimizes for shortest edges).
+// Shared by the main thread and forceLayoutWorker, so both produce the same layout.
+
+interface ForceNode extends SimulationNodeDatum {
+  id: string;
+  width: number;
+  height: number;
+}
+
+interface ForceLink extends SimulationLinkDatum<ForceNode> {
+  source: string | ForceNode;
+  target: string | ForceNode;
+}
+
+export const FORCE_LAYOUT_ITERATIONS = 300;
+
+// Bump when the simulation parameters change, so cached layouts are recalculated
+const FORCE_LAYOUT_VERSION = 1;
+
+// Messages posted by forceLayoutWorker: intermediate positions while the simulation runs, then the final ones
+export type ForceLayoutWorkerMessage =
+  | { type: 'tick'; positions: [string, { x: number; y: number }][]; progress: number }
+  | { type: 'done'; positions: [string, { x: number; y: number }][]; error?: string };
+
+export interface ForceLayout {
+  tick(count: number): void;
+  getPositions(): Map<string, { x: number; y: number }>;
+}
+
+/**
+ * A force simulation over the nodes, stepped manually with tick(). Nodes start on a grid
+ * around a fixed center, so the same graph always settles into the same layout.
+ */
+export function createForceLayout(nodes: LayoutNode[], edges: LayoutEdge[]): ForceLayout {
+  // For large graphs, use a grid-based initial layout for stability
+  const numNodes = nodes.length;
+  const cols = Math.ceil(Math.sqrt(numNodes));
+  const spacing = 350; // Larger initial spacing
+  const centerX = 4000;
+  const centerY = 4000;
+  const startX = centerX - (cols * spacing) / 2;
+  const startY = centerY - (Math.ceil(numNodes / cols) * spacing) / 2;
+
+  // Create node objects for d3-force with grid-based initial positions.
+  // Pinned nodes are fixed (fx/fy) at their center, so the others settle around them
+  const forceNodes: ForceNode[] = nodes.map((node, index) => {
+    if (node.fixed) {
+      const x = node.fixed.x + node.width / 2;
+      const y = node.fixed.y + node.height / 2;
+      return { id: node.id, width: node.width, height: node.height, x, y, fx: x, fy: y };
+    }
+    const col = index % cols;
+    const row = Math.floor(index / cols);
+    return {
+      id: node.id,
+      width: node.width,
+      height: node.height,
+      x: startX + col * spacing,
+      y: startY + row * spacing,
+    };
+  });
+
+  // Create a map for quick node lookup
+  const nodeMap = new Map(forceNodes.map((n) => [n.id, n]));
+
+  // Create edge objects for d3-force (only for edges where both nodes exist)
+  const forceLinks: ForceLink[] = edges
+    .filter((edge) => nodeMap.has(edge.source) && nodeMap.has(edge.target))
+    .map((edge) => ({
+      source: edge.source,
+      target: edge.target,
+    }));
+
+  // Adjust parameters based on graph size for stability
+  const isLargeGraph = numNodes > 100;
+  const linkDistanceVal = isLargeGraph ? 200 : 150; // Longer = more spread out
+  const linkStrengthVal = isLargeGraph ? 0.3 : 0.5; // Lower = less clustering
+  const chargeStrengthVal = isLargeGraph ? -400 : -300; // Stronger repulsion to prevent overlap
+
+  // Calculate collision radius based on node size plus padding
+  const getCollisionRadius = (d: ForceNode) => Math.max(d.width, d.height) / 2 + 40;
+
+  const simulation = forceSimulation<ForceNode>(forceNodes)
+    // Link force: pulls connected nodes together (like springs)
+    // This is the key force for minimizing edge lengths
+    .force(
+      'link',
+      forceLink<ForceNode, ForceLink>(forceLinks)
+        .id((d) => d.id)
+        .distance(linkDistanceVal) // Target edge length
+        .strength(linkStrengthVal) // How strongly edges pull nodes together
+    )
+    // Repulsion force: pushes all nodes apart to prevent overlap
+    .force(
+      'charge',
+      forceManyBody<ForceNode>()
+        .strength(chargeStrengthVal) // Negative = repulsion (stronger now)
+        .distanceMax(800) // Increased range of repulsion
+    )
+    // Centering force: keeps the graph centered
+    .force('center', forceCenter(centerX, centerY))
+    // Collision force: prevents node overlap (stronger now)
+    .force(
+      'collide',
+      forceCollide<ForceNode>()
+        .radius(getCollisionRadius) // Larger collision radius
+        .strength(1.0) // Full strength collision detection
+        .iterations(3) // Multiple collision iterations per tick for better separation
+    )
+    // Configure alpha decay for smoother convergence
+    .alphaDecay(0.015) // Slower decay = more iterations to settle
+    .velocityDecay(0.25) // Less damping = nodes can move more freely
+    // Stop the simulation to run manually
+    .stop();
+
+  return {
+    tick: (count) => {
+      simulation.tick(count);
+    },
+    // Convert from center to top-left
+    getPositions: () => {
+      const positions = new Map<string, { x: number; y: number }>();
+      forceNodes.forEach((node) => {
+        if (typeof node.x === 'number' && typeof node.y === 'number') {
+          positions.set(node.id, {
+            x: Math.round(node.x - node.width / 2),
+            y: Math.round(node.y - node.height / 2),
+          });
+        }
+      });
+      return positions;
+    },
+  };
+}
+
+/**
+ * Runs the force simulation to completion on the current thread.
+ */
+export function calculateForceDirectedLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[]
+): Map<string, { x: number; y: number }> {
+  if (nodes.length === 0) {
+    return new Map();
+  }
+  const layout = createForceLayout(nodes, edges);
+  layout.tick(FORCE_LAYOUT_ITERATIONS);
+  return layout.getPositions();
+}
+
+/**
+ * Identifies a graph for caching its force layout: changes whenever a node, a pin, an edge
+ * or the simulation parameters change.
+ */
+export function getForceLayoutCacheKey(nodes: LayoutNode[], edges: LayoutEdge[]): string {
+  const text = [
+    `v${FORCE_LAYOUT_VERSION}`,
+    ...nodes
+      .map((node) => `${node.id}:${node.width}x${node.height}${node.fixed ? `@${node.fixed.x},${node.fixed.y}` : ''}`)
+      .sort(),
+    ...edges.map((edge) => `${edge.source}>${edge.target}`).sort(),
+  ].join('\n');
+
+  // djb2
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${(hash >>> 0).toString(36)}-${nodes.length}-${edges.length}`;
+}
+
+// Webviews can't start a worker from a resource URL directly, so the script is loaded into a blob URL once
+let workerBlobUrl: Promise<string> | undefined;
+
+function getWorkerBlobUrl(scriptUrl: string): Promise<string> {
+  if (!workerBlobUrl) {
+    workerBlobUrl = fetch(scriptUrl)
+      .then((response) => response.text())
+      .then((code) => URL.createObjectURL(new Blob([code], { type: 'application/javascript' })));
+    // Try again next time instead of caching the failure
+    workerBlobUrl.catch(() => {
+      workerBlobUrl = undefined;
+    });
+  }
+  return workerBlobUrl;
+}
+
+/**
+ * Runs the force layout in forceLayoutWorker, reporting intermediate positions as the
+ * simulation settles. Falls back to the main thread when the worker can't be started.
+ * onDone gets isFallback when the simulation failed and the positions are only a grid,
+ * so they shouldn't be cached.
+ * Returns a function that cancels the layout; no callbacks fire after it is called.
+ */
+export function runForceLayoutInWorker(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  callbacks: {
+    onProgress: (positions: Map<string, { x: number; y: number }>, progress: number) => void;
+    onDone: (positions: Map<string, { x: number; y: number }>, isFallback: boolean) => void;
+  }
+): () => void {
+  let isCancelled = false;
+  let worker: Worker | undefined;
+
+  const runOnMainThread = () => {
+    // Let the UI update before the heavy calculation
+    setTimeout(() => {
+      if (!isCancelled) {
+        callbacks.onDone(calculateForceDirectedLayout(nodes, edges), false);
+      }
+    }, 150);
+  };
+
+  const scriptUrl = window.forceLayoutWorkerUrl;
+  if (!scriptUrl || typeof Worker === 'undefined') {
+    runOnMainThread();
+  } else {
+    getWorkerBlobUrl(scriptUrl)
+      .then((blobUrl) => {
+        if (isCancelled) {
+          return;
+        }
+        worker = new Worker(blobUrl);
+        worker.onmessage = (event: MessageEvent<ForceLayoutWorkerMessage>) => {
+          if (isCancelled) {
+            return;
+          }
+          const message = event.data;
+          if (message.type === 'tick') {
+            callbacks.onProgress(new Map(message.positions), message.progress);
+          } else {
+            if (message.error) {
+              console.warn('[forceLayout] Worker layout failed:', message.error);
+            }
+            worker?.terminate();
+            callbacks.onDone(new Map(message.positions), Boolean(message.error));
+          }
+        };
+        worker.onerror = (event) => {
+          console.warn('[forceLayout] Worker error, using the main thread:', event.message);
+          worker?.terminate();
+          if (!isCancelled) {
+            runOnMainThread();
+          }
+        };
+        worker.postMessage({ nodes, edges });
+      })
+      .catch((error) => {
+        console.warn('[forceLayout] Could not load the layout worker, using the main thread:', error);
+        if (!isCancelled) {
+          runOnMainThread();
+        }
+      });
+  }
+
+  return () => {
+    isCancelled = true;
+    worker?.terminate();
+  };
+}
@@ -0,0 +1,123 @@
+import * as dagre from '@dagrejs/dagre';
+
+export interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  fixed?: { x: number; y: number }; // Pinned top-left position the layout has to keep
+}
+
+// Dependency edges point from the dependency to the plugin that depends on it
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+/**
+ * Layered layout with dagre: every plugin sits above the plugins it depends on,
+ * so core and platform plugins end up at the bottom and solutions at the top.
+ * Positions are top-left corners, like React Flow's.
+ */
+export function calculateLayeredLayout(nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  const graph = new dagre.graphlib.Graph();
+  // Bottom-to-top, so edge sources (the dependencies) land on the lower ranks
+  graph.setGraph({ rankdir: 'BT', nodesep: 30, ranksep: 120 });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  for (const node of nodes) {
+    graph.setNode(node.id, { width: node.width, height: node.height });
+  }
+  for (const edge of edges) {
+    if (edge.source !== edge.target && graph.hasNode(edge.source) && graph.hasNode(edge.target)) {
+      graph.setEdge(edge.source, edge.target);
+    }
+  }
+
+  dagre.layout(graph);
+
+  // dagre positions node centers
+  for (const node of nodes) {
+    const { x, y } = graph.node(node.id);
+    positions.set(node.id, { x: Math.round(x - node.width / 2), y: Math.round(y - node.height / 2) });
+  }
+  return positions;
+}
+
+/**
+ * Radial layout around one node: rings by dependency hops in either direction, so direct
+ * dependencies and dependents form the first ring. Unconnected nodes get the outermost ring.
+ * Rings grow as needed to fit their nodes side by side. Without a focus (or an unknown one),
+ * the most connected node is the center.
+ */
+export function calculateRadialLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  focusId?: string
+): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+
+  const neighbors = new Map<string, string[]>();
+  for (const { source, target } of edges) {
+    if (source !== target && nodeById.has(source) && nodeById.has(target)) {
+      neighbors.set(source, [...(neighbors.get(source) || []), target]);
+      neighbors.set(target, [...(neighbors.get(target) || []), source]);
+    }
+  }
+
+  const focus =
+    (focusId ? nodeById.get(focusId) : undefined) ??
+    nodes.reduce<LayoutNode | undefined>(
+      (best, node) =>
+        !best || (neighbors.get(node.id)?.length ?? 0) > (neighbors.get(best.id)?.length ?? 0) ? node : best,
+      undefined
+    );
+  if (!focus) {
+    return positions;
+  }
+
+  // Breadth-first over the undirected graph
+  const rings: string[][] = [];
+  const visited = new Set([focus.id]);
+  let frontier = [focus.id];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of neighbors.get(id) || []) {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+    }
+    if (next.length > 0) {
+      rings.push(next.sort());
+    }
+    frontier = next;
+  }
+  const unconnected = nodes.filter((node) => !visited.has(node.id)).map((node) => node.id);
+  if (unconnected.length > 0) {
+    rings.push(unconnected);
+  }
+
+  const RING_GAP = 250;
+  const NODE_GAP = 30;
+  positions.set(focus.id, { x: -focus.width / 2, y: -focus.height / 2 });
+
+  let radius = 0;
+  for (const ring of rings) {
+    // Enough circumference for every node's width plus a gap
+    const circumference = ring.reduce((sum, id) => sum + nodeById.get(id)!.width + NODE_GAP, 0);
+    radius = Math.max(radius + RING_GAP, circumference / (2 * Math.PI));
+    ring.forEach((id, index) => {
+      const node = nodeById.get(id)!;
+      const angle = (2 * Math.PI * index) / ring.length - Math.PI / 2;
+      positions.set(id, {
+        x: Math.round(radius * Math.cos(angle) - node.width / 2),
+        y: Math.round(radius * Math.sin(angle) - node.height / 2),
+      });
+    });
+  }
+  return positions;
+}
@@ -0,0 +1,103 @@
+import type { GroupNode, PluginInfoForWebview } from '../../types';
+import { UNSPECIFIED_VALUE } from './pluginMetadata';
+
+// What zoomed out Complete mode collapses plugins by
+export type ClusterBy = 'directory' | 'group';
+
+export interface PluginCluster {
+  id: string;
+  label: string;
+  groupIds: string[];
+  // Center of the member groups, so the cluster sits where its plugins are
+  center: { x: number; y: number };
+}
+
+export interface ClusterEdge {
+  id: string;
+  source: string;
+  target: string;
+  count: number; // Dependency edges between plugins of the two clusters
+}
+
+/**
+ * The area of the repository a plugin lives in: 'src/platform', 'x-pack/platform',
+ * 'x-pack/solutions/observability'. Solutions get their own cluster each.
+ */
+export function getDirectoryArea(directory: string): string {
+  const segments = directory.split('/').filter(Boolean);
+  let depth = 1;
+  if (segments[0] === 'x-pack' && segments[1] === 'solutions') {
+    depth = 3;
+  } else if (segments[0] === 'src' || segments[0] === 'x-pack') {
+    depth = 2;
+  }
+  return segments.slice(0, depth).join('/') || UNSPECIFIED_VALUE;
+}
+
+function getClusterLabel(plugin: PluginInfoForWebview | undefined, clusterBy: ClusterBy): string {
+  if (!plugin) {
+    return UNSPECIFIED_VALUE;
+  }
+  return clusterBy === 'directory' ? getDirectoryArea(plugin.directory) : plugin.metadata.group || UNSPECIFIED_VALUE;
+}
+
+/**
+ * Groups the plugin groups into clusters, largest first. Groups of unknown plugins
+ * share the "(none)" cluster.
+ */
+export function buildPluginClusters(
+  groups: GroupNode[],
+  pluginsByGroupId: Map<string, PluginInfoForWebview>,
+  clusterBy: ClusterBy
+): PluginCluster[] {
+  const members = new Map<string, GroupNode[]>();
+  for (const group of groups) {
+    const label = getClusterLabel(pluginsByGroupId.get(group.id), clusterBy);
+    members.set(label, [...(members.get(label) || []), group]);
+  }
+
+  return [...members.entries()]
+    .map(([label, clusterGroups]) => ({
+      id: `cluster-${label}`,
+      label,
+      groupIds: clusterGroups.map((group) => group.id),
+      center: {
+        x: clusterGroups.reduce((sum, g) => sum + g.position.x + g.width / 2, 0) / clusterGroups.length,
+        y: clusterGroups.reduce((sum, g) => sum + g.position.y + g.height / 2, 0) / clusterGroups.length,
+      },
+    }))
+    .sort((a, b) => b.groupIds.length - a.groupIds.length || a.label.localeCompare(b.label));
+}
+
+/**
+ * Collapses edges between groups into one edge per pair of clusters, counting the edges it stands for.
+ * Edges within a cluster are dropped.
+ */
+export function aggregateClusterEdges(
+  edges: { source: string; target: string }[],
+  clusters: PluginCluster[]
+): ClusterEdge[] {
+  const clusterByGroupId = new Map<string, string>();
+  for (const cluster of clusters) {
+    for (const groupId of cluster.groupIds) {
+      clusterByGroupId.set(groupId, cluster.id);
+    }
+  }
+
+  const byPair = new Map<string, ClusterEdge>();
+  for (const edge of edges) {
+    const source = clusterByGroupId.get(edge.source);
+    const target = clusterByGroupId.get(edge.target);
+    if (!source || !target || source === target) {
+      continue;
+    }
+    const id = `${source}>${target}`;
+    const existing = byPair.get(id);
+    if (existing) {
+      existing.count++;
+    } else {
+      byPair.set(id, { id, source, target, count: 1 });
+    }
+  }
+  return [...byPair.values()];
+}
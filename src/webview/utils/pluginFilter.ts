@@ -0,0 +1,109 @@
+import type { PluginInfoForWebview } from '../../types';
+import { getDependencyIds } from '../../pluginDependencies';
+import { buildDependentsMap } from './pluginImpact';
+import { getMetadataValues } from './pluginMetadata';
+
+// Which way "reachable from" follows dependencies
+export type ReachableDirection = 'dependencies' | 'dependents';
+
+export interface PluginFilter {
+  directoryPrefix: string; // Relative to the workspace root, e.g. 'x-pack/solutions/security'
+  type: string | null; // Manifest type, or UNSPECIFIED_VALUE for plugins without one
+  owner: string | null;
+  // In-degree counts the plugins that depend on a plugin, out-degree the plugins it depends on
+  minInDegree: number | null;
+  maxInDegree: number | null;
+  minOutDegree: number | null;
+  maxOutDegree: number | null;
+  reachableFrom: string | null; // Runtime ID
+  reachableDirection: ReachableDirection;
+}
+
+export const EMPTY_PLUGIN_FILTER: PluginFilter = {
+  directoryPrefix: '',
+  type: null,
+  owner: null,
+  minInDegree: null,
+  maxInDegree: null,
+  minOutDegree: null,
+  maxOutDegree: null,
+  reachableFrom: null,
+  reachableDirection: 'dependencies',
+};
+
+export function isPluginFilterActive(filter: PluginFilter): boolean {
+  return (
+    filter.directoryPrefix.trim() !== '' ||
+    filter.type !== null ||
+    filter.owner !== null ||
+    filter.minInDegree !== null ||
+    filter.maxInDegree !== null ||
+    filter.minOutDegree !== null ||
+    filter.maxOutDegree !== null ||
+    filter.reachableFrom !== null
+  );
+}
+
+function isInRange(value: number, min: number | null, max: number | null): boolean {
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+/**
+ * The plugin itself and every plugin reachable from it, following dependencies or dependents transitively.
+ */
+function findReachablePlugins(
+  plugins: PluginInfoForWebview[],
+  dependentsMap: Map<string, string[]>,
+  startId: string,
+  direction: ReachableDirection
+): Set<string> {
+  const pluginById = new Map(plugins.map((plugin) => [plugin.runtimeId, plugin]));
+  const getNext = (id: string) =>
+    direction === 'dependencies' ? getDependencyIds(pluginById.get(id) ?? {}) : dependentsMap.get(id) || [];
+
+  const reachable = new Set([startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    for (const next of getNext(queue.shift()!)) {
+      if (!reachable.has(next) && pluginById.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reachable;
+}
+
+/**
+ * The plugins matching every criterion of the filter. Degrees are counted over the whole plugin graph,
+ * so hiding plugins doesn't change the degree of the others.
+ */
+export function filterPlugins(plugins: PluginInfoForWebview[], filter: PluginFilter): PluginInfoForWebview[] {
+  const pluginIds = new Set(plugins.map((plugin) => plugin.runtimeId));
+  const dependentsMap = buildDependentsMap(plugins);
+  const prefix = filter.directoryPrefix.trim().replace(/\/+$/, '');
+  const reachable = filter.reachableFrom
+    ? findReachablePlugins(plugins, dependentsMap, filter.reachableFrom, filter.reachableDirection)
+    : null;
+
+  return plugins.filter((plugin) => {
+    if (prefix && plugin.directory !== prefix && !plugin.directory.startsWith(`${prefix}/`)) {
+      return false;
+    }
+    if (filter.type !== null && !getMetadataValues(plugin.metadata, 'type').includes(filter.type)) {
+      return false;
+    }
+    if (filter.owner !== null && !getMetadataValues(plugin.metadata, 'owner').includes(filter.owner)) {
+      return false;
+    }
+    const inDegree = (dependentsMap.get(plugin.runtimeId) || []).filter((id) => pluginIds.has(id)).length;
+    const outDegree = getDependencyIds(plugin).filter((id) => pluginIds.has(id)).length;
+    if (!isInRange(inDegree, filter.minInDegree, filter.maxInDegree)) {
+      return false;
+    }
+    if (!isInRange(outDegree, filter.minOutDegree, filter.maxOutDegree)) {
+      return false;
+    }
+    return !reachable || reachable.has(plugin.runtimeId);
+  });
+}
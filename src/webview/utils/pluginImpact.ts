@@ -0,0 +1,95 @@
+import type { PluginInfoForWebview } from '../../types';
+import { getDependencyIds } from '../../pluginDependencies';
+
+// Plugins that depend on a plugin, grouped by how many dependency hops away they are
+export interface PluginImpact {
+  pluginId: string; // runtime ID of the changed plugin
+  levels: { distance: number; pluginIds: string[] }[]; // distance 1 = direct dependents
+  distances: Map<string, number>; // dependent runtime ID -> distance
+  total: number;
+}
+
+/**
+ * Map of runtime ID -> plugins that declare it as a dependency (any kind).
+ */
+export function buildDependentsMap(plugins: PluginInfoForWebview[]): Map<string, string[]> {
+  const dependents = new Map<string, string[]>();
+  for (const plugin of plugins) {
+    for (const dep of getDependencyIds(plugin)) {
+      const list = dependents.get(dep) || [];
+      list.push(plugin.runtimeId);
+      dependents.set(dep, list);
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Every plugin that depends on `pluginId` directly or transitively (breadth-first over reverse edges).
+ */
+export function findPluginImpact(dependentsMap: Map<string, string[]>, pluginId: string): PluginImpact {
+  const distances = new Map<string, number>();
+  const levels: PluginImpact['levels'] = [];
+  let frontier = [pluginId];
+
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const dependent of dependentsMap.get(current) || []) {
+        if (dependent !== pluginId && !distances.has(dependent)) {
+          distances.set(dependent, levels.length + 1);
+          next.push(dependent);
+        }
+      }
+    }
+    if (next.length > 0) {
+      levels.push({ distance: levels.length + 1, pluginIds: next.sort() });
+    }
+    frontier = next;
+  }
+
+  return { pluginId, levels, distances, total: distances.size };
+}
+
+/**
+ * Markdown report of an impact analysis, with the owners to loop into reviews.
+ */
+export function formatImpactReport(impact: PluginImpact, plugins: PluginInfoForWebview[]): string {
+  const pluginMap = new Map(plugins.map((p) => [p.runtimeId, p]));
+  const describe = (runtimeId: string) => {
+    const plugin = pluginMap.get(runtimeId);
+    const owners = plugin?.metadata.owner.length ? ` - ${plugin.metadata.owner.join(', ')}` : '';
+    return `- \`${plugin?.packageId || runtimeId}\` (${runtimeId})${owners}`;
+  };
+
+  const root = pluginMap.get(impact.pluginId)?.packageId || impact.pluginId;
+  const direct = impact.levels[0]?.pluginIds.length ?? 0;
+  const lines = [
+    `# Impact of changes to \`${root}\``,
+    '',
+    `${impact.total} plugins depend on it: ${direct} directly, ${impact.total - direct} transitively.`,
+  ];
+
+  for (const level of impact.levels) {
+    lines.push('', `## ${level.distance === 1 ? 'Direct dependents' : `Distance ${level.distance}`} (${level.pluginIds.length})`, '');
+    lines.push(...level.pluginIds.map(describe));
+  }
+
+  // Owners across every impacted plugin, most affected first
+  const ownerCounts = new Map<string, number>();
+  for (const runtimeId of impact.distances.keys()) {
+    for (const owner of pluginMap.get(runtimeId)?.metadata.owner || []) {
+      ownerCounts.set(owner, (ownerCounts.get(owner) || 0) + 1);
+    }
+  }
+  if (ownerCounts.size > 0) {
+    lines.push('', `## Owners (${ownerCounts.size})`, '');
+    lines.push(
+      ...[...ownerCounts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([owner, count]) => `- ${owner} (${count} ${count === 1 ? 'plugin' : 'plugins'})`)
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,83 @@
+import type { PluginMetadata } from '../../types';
+
+// Manifest fields Complete mode can color and filter plugins by
+export type MetadataField = 'group' | 'owner' | 'type' | 'visibility';
+
+export const METADATA_FIELDS: { field: MetadataField; label: string }[] = [
+  { field: 'group', label: 'Solution group' },
+  { field: 'owner', label: 'Owner' },
+  { field: 'type', label: 'Type' },
+  { field: 'visibility', label: 'Visibility' },
+];
+
+// Used for plugins that don't declare the field
+export const UNSPECIFIED_VALUE = '(none)';
+
+const PALETTE = [
+  'var(--vscode-charts-blue, #3794ff)',
+  'var(--vscode-charts-green, #89d185)',
+  'var(--vscode-charts-orange, #d18616)',
+  'var(--vscode-charts-purple, #b180d7)',
+  'var(--vscode-charts-red, #f14c4c)',
+  'var(--vscode-charts-yellow, #cca700)',
+  '#4ec9b0',
+  '#ce9178',
+  '#9cdcfe',
+  '#d16d9e',
+];
+
+/**
+ * Values of a metadata field for one plugin. Owners are a list; every other field has one value.
+ */
+export function getMetadataValues(metadata: PluginMetadata | undefined, field: MetadataField): string[] {
+  if (field === 'owner') {
+    return metadata?.owner.length ? metadata.owner : [UNSPECIFIED_VALUE];
+  }
+  return [metadata?.[field] || UNSPECIFIED_VALUE];
+}
+
+/**
+ * Distinct values of a field across plugins, most common first.
+ */
+export function getDistinctMetadataValues(
+  metadataList: (PluginMetadata | undefined)[],
+  field: MetadataField
+): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const metadata of metadataList) {
+    for (const value of getMetadataValues(metadata, field)) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Assign a color to each value. The palette is small, so only the most common values
+ * get a distinct color and the rest share a neutral one.
+ */
+export function buildMetadataColorScale(values: string[]): Map<string, string> {
+  const scale = new Map<string, string>();
+  values.forEach((value, index) => {
+    scale.set(
+      value,
+      value === UNSPECIFIED_VALUE || index >= PALETTE.length
+        ? 'var(--vscode-descriptionForeground, #808080)'
+        : PALETTE[index]
+    );
+  });
+  return scale;
+}
+
+/**
+ * One-line summary for headers and tooltips, e.g. "observability · plugin · browser+server".
+ */
+export function describeMetadata(metadata: PluginMetadata | undefined): string {
+  if (!metadata) {
+    return '';
+  }
+  const runtimes = [metadata.browser && 'browser', metadata.server && 'server'].filter(Boolean).join('+');
+  return [metadata.group, metadata.type, metadata.visibility, runtimes].filter(Boolean).join(' · ');
+}
@@ -4,6 +4,7 @@ interface ResolveCollisionsOptions {
   maxIterations?: number;
   overlapThreshold?: number;
   margin?: number;
+  pinnedIds?: Set<string>; // Nodes that stay put - overlapping nodes are pushed away from them instead
 }
 
 interface NodeRect {
@@ -13,6 +14,7 @@ interface NodeRect {
   width: number;
   height: number;
   parentId?: string;
+  isPinned: boolean;
 }
 
 /**
@@ -23,7 +25,7 @@ export function resolveCollisions(
   nodes: Node[],
   options: ResolveCollisionsOptions = {}
 ): Node[] {
-  const { maxIterations = 50, overlapThreshold = 0.1, margin = 10 } = options;
+  const { maxIterations = 50, overlapThreshold = 0.1, margin = 10, pinnedIds = new Set<string>() } = options;
 
   // Convert nodes to rectangles with dimensions
   const nodeRects: NodeRect[] = nodes.map((node) => {
@@ -36,6 +38,7 @@ export function resolveCollisions(
       width,
       height,
       parentId: node.parentId,
+      isPinned: pinnedIds.has(node.id),
     };
   });
 
@@ -96,11 +99,20 @@ function resolveNodeCollisions(
         const rectA = rects[i];
         const rectB = rects[j];
 
+        // Two pinned nodes can't be pulled apart
+        if (rectA.isPinned && rectB.isPinned) {
+          continue;
+        }
+
         const overlap = getOverlap(rectA, rectB, margin);
 
         if (overlap.x > overlapThreshold || overlap.y > overlapThreshold) {
           hasCollisions = true;
 
+          // Each node moves half the way, unless the other one is pinned and can't move at all
+          const shareA = rectB.isPinned ? 2 : rectA.isPinned ? 0 : 1;
+          const shareB = 2 - shareA;
+
           // Calculate push direction and magnitude
           const centerAX = rectA.x + rectA.width / 2;
           const centerAY = rectA.y + rectA.height / 2;
@@ -115,21 +127,21 @@ function resolveNodeCollisions(
             // Push horizontally
             const pushX = (overlap.x + margin) / 2;
             if (dx >= 0) {
-              rectA.x -= pushX;
-              rectB.x += pushX;
+              rectA.x -= pushX * shareA;
+              rectB.x += pushX * shareB;
             } else {
-              rectA.x += pushX;
-              rectB.x -= pushX;
+              rectA.x += pushX * shareA;
+              rectB.x -= pushX * shareB;
             }
           } else {
             // Push vertically
             const pushY = (overlap.y + margin) / 2;
             if (dy >= 0) {
-              rectA.y -= pushY;
-              rectB.y += pushY;
+              rectA.y -= pushY * shareA;
+              rectB.y += pushY * shareB;
             } else {
-              rectA.y += pushY;
-              rectB.y -= pushY;
+              rectA.y += pushY * shareA;
+              rectB.y -= pushY * shareB;
             }
           }
         }